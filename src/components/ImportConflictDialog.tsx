@@ -0,0 +1,56 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import type { ImportResolution } from "@/lib/notebook-file";
+import type { Notebook } from "@/lib/notes-db";
+
+export interface ImportConflict {
+  existing: Notebook;
+  imported: Notebook;
+  // Name of the file the imported notes came from
+  source: string;
+}
+
+interface ImportConflictDialogProps {
+  conflict: ImportConflict | null;
+  onCancel: () => void;
+  onResolve: (resolution: ImportResolution) => void;
+}
+
+const dateFormat = new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+/** Asks how imported notes should be combined with the notes already stored for the same video. */
+export const ImportConflictDialog = ({ conflict, onCancel, onResolve }: ImportConflictDialogProps) => {
+  return (
+    <AlertDialog open={!!conflict} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Notes for this video already exist</AlertDialogTitle>
+          <AlertDialogDescription>
+            {conflict && (
+              <>
+                This browser already has notes for {conflict.existing.filename}, last edited{" "}
+                {dateFormat.format(conflict.existing.updatedAt)}. {conflict.source} was last edited{" "}
+                {dateFormat.format(conflict.imported.updatedAt)}.
+              </>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={() => onResolve("keep-both")}>Keep both</Button>
+          <Button variant="outline" onClick={() => onResolve("merge")}>Merge</Button>
+          <AlertDialogAction onClick={() => onResolve("replace")}>Replace</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
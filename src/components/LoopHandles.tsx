@@ -0,0 +1,71 @@
+import { useRef } from "react";
+import { timelinePercent } from "@/lib/timeline-marks";
+
+export type LoopPoint = "start" | "end";
+
+interface LoopHandlesProps {
+  // Seconds; either point may be unset while the loop is being marked
+  start: number | null;
+  end: number | null;
+  duration: number;
+  isActive: boolean;
+  onDrag: (point: LoopPoint, time: number) => void;
+}
+
+const HANDLES: { point: LoopPoint; label: string; title: string }[] = [
+  { point: "start", label: "A", title: "Drag to move the loop start (A)" },
+  { point: "end", label: "B", title: "Drag to move the loop end (B)" },
+];
+
+/** A/B loop points laid over the seek slider, with handles that drag along the timeline. */
+export const LoopHandles = ({ start, end, duration, isActive, onDrag }: LoopHandlesProps) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  if (!duration || (start === null && end === null)) return null;
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect?.width) return 0;
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const points = { start, end };
+
+  return (
+    <div ref={trackRef} className="pointer-events-none absolute inset-x-0 top-1/2 h-2 -translate-y-1/2">
+      {start !== null && end !== null && (
+        <div
+          className={`absolute inset-y-0 rounded-full ${isActive ? "bg-sky-400/40" : "bg-sky-400/15"}`}
+          style={{ left: timelinePercent(start, duration), width: timelinePercent(end - start, duration) }}
+        />
+      )}
+      {HANDLES.map(({ point, label, title }) => {
+        const time = points[point];
+        if (time === null) return null;
+        return (
+          <div
+            key={point}
+            role="slider"
+            aria-label={point === "start" ? "Loop start" : "Loop end"}
+            aria-valuemin={0}
+            aria-valuemax={duration}
+            aria-valuenow={time}
+            title={title}
+            onPointerDown={(e) => {
+              e.preventDefault();
+              e.currentTarget.setPointerCapture(e.pointerId);
+            }}
+            onPointerMove={(e) => {
+              if (e.currentTarget.hasPointerCapture(e.pointerId)) onDrag(point, timeAt(e.clientX));
+            }}
+            className={`pointer-events-auto absolute -top-2 h-6 w-3.5 -translate-x-1/2 cursor-ew-resize touch-none select-none rounded-sm text-center text-[10px] font-bold leading-6 text-black ${
+              isActive ? "bg-sky-400" : "bg-sky-400/60"
+            }`}
+            style={{ left: timelinePercent(time, duration) }}
+          >
+            {label}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import { useEffect, useMemo, useState } from "react";
+import { FileText, FolderOpen } from "lucide-react";
+import { toast } from "sonner";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { usePlayerController } from "@/hooks/use-player-controller";
+import { buildSearchIndex, searchNotes, type NoteSearchIndex, type NoteSearchResult } from "@/lib/note-search";
+import { listNotebooks, notebookName, type Notebook } from "@/lib/notes-db";
+import { formatStampText, seekToStamp } from "@/lib/stamps";
+import { resolveTimecodeSettings } from "@/lib/video-meta";
+
+const RESULT_LIMIT = 50;
+
+interface NoteSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Notebook of the video in the player; its matches seek instead of opening the notebook
+  activeNotebookId: string | null;
+  // Omitted while another video is loaded, in which case other notebooks can't be opened in place
+  onOpenNotebook?: (notebookId: string) => void;
+}
+
+/** Ctrl+K palette searching the text of every stored notebook. */
+export const NoteSearch = ({ open, onOpenChange, activeNotebookId, onOpenNotebook }: NoteSearchProps) => {
+  const player = usePlayerController();
+  const [notebooks, setNotebooks] = useState<Notebook[]>([]);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  // Re-read the store on every open so notes written since the last search are found
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    listNotebooks()
+      .then((stored) => {
+        if (!cancelled) setNotebooks(stored.filter((notebook) => notebook.document.blocks.length > 0));
+      })
+      .catch(() => toast.error("Could not open notes storage"));
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const index = useMemo<NoteSearchIndex>(() => buildSearchIndex(notebooks), [notebooks]);
+  const results = useMemo(() => searchNotes(index, query, RESULT_LIMIT), [index, query]);
+  const nameMatches = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return notebooks.filter((notebook) => !needle || notebookName(notebook).toLowerCase().includes(needle));
+  }, [notebooks, query]);
+
+  const close = () => {
+    onOpenChange(false);
+    setQuery("");
+  };
+
+  const openNotebook = (notebook: Notebook) => {
+    close();
+    if (notebook.id === activeNotebookId) return;
+    if (onOpenNotebook) {
+      onOpenNotebook(notebook.id);
+    } else {
+      toast.info(`These notes belong to ${notebook.filename}. Load that video to jump to them.`);
+    }
+  };
+
+  const selectResult = ({ notebook, stamp }: NoteSearchResult) => {
+    if (notebook.id !== activeNotebookId) {
+      openNotebook(notebook);
+      return;
+    }
+
+    close();
+    if (!stamp) {
+      toast.info("No stamp before this note", { duration: 1500 });
+      return;
+    }
+    seekToStamp(player, stamp);
+    toast.success(`Jumped to ${formatStampText(stamp, player.getTimecodeSettings())}`, { duration: 300 });
+  };
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={(next) => (next ? onOpenChange(true) : close())}
+      shouldFilter={false}
+    >
+      <CommandInput placeholder="Search all notes..." value={query} onValueChange={setQuery} />
+      <CommandList>
+        <CommandEmpty>{notebooks.length ? "No matching notes." : "No notes stored yet."}</CommandEmpty>
+        {results.length > 0 && (
+          <CommandGroup heading="Notes">
+            {results.map((result) => (
+              <CommandItem
+                key={`${result.notebook.id}:${result.lineIndex}`}
+                value={`${result.notebook.id}:${result.lineIndex}`}
+                onSelect={() => selectResult(result)}
+              >
+                <FileText className="mr-2 flex-shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm">
+                    {result.snippet.before}
+                    <mark className="bg-primary/25 text-foreground rounded-sm">{result.snippet.match}</mark>
+                    {result.snippet.after}
+                  </div>
+                  <div className="truncate text-xs text-muted-foreground">{notebookName(result.notebook)}</div>
+                </div>
+                {result.stamp && (
+                  <span className="ml-2 flex-shrink-0 text-xs font-semibold text-primary">
+                    {formatStampText(result.stamp, resolveTimecodeSettings(result.notebook.meta))}
+                  </span>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+        {nameMatches.length > 0 && (
+          <CommandGroup heading="Notebooks">
+            {nameMatches.map((notebook) => (
+              <CommandItem key={notebook.id} value={`notebook:${notebook.id}`} onSelect={() => openNotebook(notebook)}>
+                <FolderOpen className="mr-2" />
+                <span className="truncate">{notebookName(notebook)}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
@@ -1,111 +1,279 @@
 import { useState, useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from "react";
 import { Button } from "@/components/ui/button";
-import { Save, Trash2, FileText, Clock, Frame, Download, Loader2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Save, Trash2, FileText, Clock, Frame, Timer, Download, Upload, Loader2, Undo2, Redo2, Crosshair, Repeat } from "lucide-react";
 import { toast } from "sonner";
+import { useFollowPlayback } from "@/hooks/use-follow-playback";
+import { useFullscreenElement } from "@/hooks/use-fullscreen-element";
+import { usePlayerController, usePlayerEvent } from "@/hooks/use-player-controller";
+import { useShortcutSettings } from "@/hooks/use-shortcut-settings";
+import { useStoredToggle } from "@/hooks/use-stored-toggle";
+import { useUndoHistory } from "@/hooks/use-undo-history";
+import { downloadFile, stripExtension } from "@/lib/download";
+import { getCaretOffset, setCaretOffset } from "@/lib/editor-caret";
+import { captureFrames } from "@/lib/frame-capture";
+import { sidecarFilename, writeSidecar } from "@/lib/folder-sync";
+import { frameToSeekTime, timeToFrame } from "@/lib/frame-rate";
+import { buildHtmlReport } from "@/lib/html-report";
+import {
+  documentToMarkers,
+  formatCmx3600Locators,
+  formatFcpxmlMarkers,
+  formatPremiereMarkerCsv,
+  formatResolveMarkerEdl,
+} from "@/lib/markers";
+import {
+  documentToDom,
+  documentToMarkdown,
+  domToDocument,
+  emptyDocument,
+  htmlToDocument,
+  plainTextToDocument,
+  sanitizeToEditorDom,
+  stampSections,
+  type NoteDocument,
+} from "@/lib/note-document";
+import {
+  IMPORT_FILE_TYPES,
+  mergeImportedNotes,
+  parseImportFile,
+  type ImportMergeMode,
+  type ImportedNote,
+} from "@/lib/note-import";
+import { NOTEBOOK_FILE_EXTENSION, serializeNotebook } from "@/lib/notebook-file";
+import { UnreadableNotebookError, getNotebook, isQuotaExceeded, updateNotebook } from "@/lib/notes-db";
+import { SHORTCUTS, findShortcut, withShortcut } from "@/lib/shortcuts";
+import {
+  STAMP_SELECTOR,
+  createStampElement,
+  formatClockTime,
+  formatStampText,
+  readStampElement,
+  seekToStamp,
+  stampEndTime,
+  stampTime,
+  type Stamp,
+} from "@/lib/stamps";
+import { DEFAULT_CUE_DURATION, documentToCues, formatSrt, formatVtt } from "@/lib/subtitles";
+import { frameToTimecode } from "@/lib/timecode";
 
-interface NotesPanelProps {
-  videoFilename: string | null;
-  getCurrentTime?: () => number;
-  getCurrentFrame?: () => number;
-  seekToTime?: (time: number) => void;
+// An undo step: the document plus where the caret was, so undo puts the caret back too
+interface EditorSnapshot {
+  doc: NoteDocument;
+  caret: number;
 }
 
-interface Stamp {
-  id: string;
-  type: 'time' | 'frame';
-  value: number;
-  label: string;
+type ExportFormat = 'markdown' | 'html' | 'notebook' | 'srt' | 'vtt' | 'cmx3600' | 'fcpxml' | 'premiere-csv' | 'resolve-edl';
+
+const REPORT_THUMBNAIL_WIDTH = 320;
+
+const NOTES_ACTIONS = SHORTCUTS.filter(({ group }) => group === "Notes").map(({ action }) => action);
+
+interface NotesPanelProps {
+  notebookId: string | null;
+  videoFilename: string | null;
+  // Called with the notes as loaded and after each save
+  onDocumentChange?: (doc: NoteDocument) => void;
 }
 
 export interface NotesPanelHandle {
   getEditorRef: () => HTMLDivElement | null;
+  // Inserts a range stamp spanning the given frames, as marked with I/O in the player
+  insertRangeStamp: (start: number, end: number) => void;
 }
 
 export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({ 
-  videoFilename, 
-  getCurrentTime, 
-  getCurrentFrame, 
-  seekToTime 
+  notebookId,
+  videoFilename,
+  onDocumentChange
 }, ref) => {
+  const player = usePlayerController();
   const [hasChanges, setHasChanges] = useState(false);
   const [lastBackspaceTime, setLastBackspaceTime] = useState(0);
   const editorRef = useRef<HTMLDivElement>(null);
+  const plainPasteRef = useRef(false);
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const history = useUndoHistory<EditorSnapshot>();
+  const fullscreenElement = useFullscreenElement();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const importModeRef = useRef<ImportMergeMode>('append');
+  const [cueDuration, setCueDuration] = useState(
+    () => parseFloat(localStorage.getItem("alairy-cue-duration") ?? "") || DEFAULT_CUE_DURATION
+  );
+  // Set when the stored notes failed to load; editing and saving stay off so they aren't overwritten
+  const [isUnreadable, setIsUnreadable] = useState(false);
+  // Shared with the other notes panel (docked or fullscreen), so toggling in one applies to both
+  const [isFollowing, setIsFollowing] = useStoredToggle("alairy-follow-playback");
+  const [isLoopingRanges, setIsLoopingRanges] = useStoredToggle("alairy-loop-ranges");
+  const follow = useFollowPlayback(editorRef, isFollowing);
+  const { keymap } = useShortcutSettings();
 
   useImperativeHandle(ref, () => ({
-    getEditorRef: () => editorRef.current
+    getEditorRef: () => editorRef.current,
+    insertRangeStamp
   }));
 
-  const formatTime = (seconds: number) => {
-    const h = Math.floor(seconds / 3600);
-    const m = Math.floor((seconds % 3600) / 60);
-    const s = Math.floor(seconds % 60);
-    return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
-  };
+  const formatTimecode = useCallback((frame: number) => {
+    return frameToTimecode(frame, player.getTimecodeSettings());
+  }, [player]);
 
-  const handleStampClick = useCallback((stamp: Stamp) => {
-    if (!seekToTime) {
+  // Alt+click on a range loops it (a plain click does too with range looping on); any other seek ends the loop
+  const handleStampClick = useCallback((stamp: Stamp, loop = false) => {
+    if (!player.isReady()) {
       toast.error("Cannot navigate to timestamp", { duration: 300 });
       return;
     }
     
-    if (stamp.type === 'time') {
-      seekToTime(stamp.value);
-      toast.success(`Jumped to ${formatTime(stamp.value)}`, { duration: 300 });
+    seekToStamp(player, stamp);
+    const frameRate = player.getFrameRate();
+    const end = stampEndTime(stamp, frameRate);
+    if (end !== null) {
+      const text = formatStampText(stamp, player.getTimecodeSettings());
+      if (loop) {
+        player.setLoop({ start: stampTime(stamp, frameRate), end });
+        player.play();
+        toast.success(`Looping ${text}`, { duration: 300 });
+      } else {
+        toast.success(`Jumped to ${text}`, { duration: 300 });
+      }
+    } else if (stamp.type === 'time') {
+      toast.success(`Jumped to ${formatClockTime(stamp.value)}`, { duration: 300 });
+    } else if (stamp.type === 'timecode') {
+      toast.success(`Jumped to ${formatTimecode(stamp.value)}`, { duration: 300 });
     } else {
-      seekToTime(stamp.value / 30);
       toast.success(`Jumped to frame ${stamp.value}`, { duration: 300 });
     }
-  }, [seekToTime]);
+  }, [player, formatTimecode]);
 
-  // Reattach click listeners to stamp buttons
-  const reattachStampListeners = useCallback(() => {
-    if (!editorRef.current) return;
+  // Stamp clicks are delegated from the editor, so chips need no listeners of their own
+  const handleEditorClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const button = (e.target as HTMLElement).closest<HTMLElement>(STAMP_SELECTOR);
+    if (!button) return;
     
-    const stampButtons = editorRef.current.querySelectorAll('button[data-stamp-id]');
-    stampButtons.forEach((button) => {
-      const btn = button as HTMLElement;
-      const stamp: Stamp = {
-        id: btn.dataset.stampId || '',
-        type: btn.dataset.stampType as 'time' | 'frame',
-        value: parseFloat(btn.dataset.stampValue || '0'),
-        label: btn.dataset.stampLabel || ''
-      };
-      
-      // Remove existing listeners by cloning
-      const newBtn = btn.cloneNode(true) as HTMLElement;
-      newBtn.addEventListener('click', (e) => {
-        e.preventDefault();
-        handleStampClick(stamp);
-      });
-      btn.parentNode?.replaceChild(newBtn, btn);
+    e.preventDefault();
+    const stamp = readStampElement(button);
+    if (stamp) handleStampClick(stamp, e.altKey || isLoopingRanges);
+  };
+
+  const renderStamp = useCallback((stamp: Stamp) => {
+    return createStampElement(stamp, formatStampText(stamp, player.getTimecodeSettings()));
+  }, [player]);
+
+  // Timecode chips depend on the video's frame rate and start offset, which can change after load
+  usePlayerEvent("timing", () => {
+    editorRef.current?.querySelectorAll<HTMLElement>(STAMP_SELECTOR).forEach((button) => {
+      const stamp = readStampElement(button);
+      if (stamp && button.lastElementChild) {
+        button.lastElementChild.textContent = formatStampText(stamp, player.getTimecodeSettings());
+      }
     });
-  }, [handleStampClick]);
+  });
 
-  // Load notes from localStorage
-  useEffect(() => {
-    if (videoFilename && editorRef.current) {
-      const savedNotes = localStorage.getItem(`vidnotes_${videoFilename}`);
-      if (savedNotes) {
-        editorRef.current.innerHTML = savedNotes;
-        // Reattach listeners after loading HTML
-        setTimeout(() => reattachStampListeners(), 0);
-      } else {
-        editorRef.current.innerHTML = '';
+  const takeSnapshot = (): EditorSnapshot | null => {
+    if (!editorRef.current) return null;
+    return { doc: domToDocument(editorRef.current), caret: getCaretOffset(editorRef.current) ?? 0 };
+  };
+
+  // Records the editor's current state as an undo step; typing coalesces, discrete edits don't
+  const recordHistory = (coalesce = false) => {
+    const snapshot = takeSnapshot();
+    if (snapshot) history.commit(snapshot, { coalesce });
+  };
+
+  // Kept in a ref so a new callback from the parent doesn't reload the notes
+  const onDocumentChangeRef = useRef(onDocumentChange);
+  onDocumentChangeRef.current = onDocumentChange;
+
+  // The notebook whose notes are in the editor; null while a load is in flight or the notes are
+  // unreadable, so nothing is written then
+  const loadedRef = useRef<{ notebookId: string; videoFilename: string | null } | null>(null);
+  const videoFilenameRef = useRef(videoFilename);
+  videoFilenameRef.current = videoFilename;
+
+  // Writes the editor content to the store, then mirrors it to the linked notes folder; quota
+  // failures are reported rather than dropped
+  const persistNotes = useCallback(async () => {
+    const target = loadedRef.current;
+    if (!target?.videoFilename || !editorRef.current) return false;
+    const { notebookId, videoFilename } = target;
+
+    const doc = domToDocument(editorRef.current);
+    try {
+      const notebook = await updateNotebook(notebookId, videoFilename, (notebook) => ({ ...notebook, filename: videoFilename, document: doc }));
+      // A save flushed on switching notebooks must not report the old notes as the new ones
+      if (loadedRef.current?.notebookId === notebookId) {
+        setHasChanges(false);
+        onDocumentChangeRef.current?.(doc);
       }
-      setHasChanges(false);
+      writeSidecar(notebook).catch(() => toast.error(`Could not write ${sidecarFilename(videoFilename)} to the notes folder`));
+      return true;
+    } catch (error) {
+      toast.error(
+        isQuotaExceeded(error)
+          ? "Browser storage is full, so these notes were not saved. Export and delete old notebooks to free space."
+          : "Could not save notes",
+        { duration: 8000 }
+      );
+      return false;
     }
-  }, [videoFilename, reattachStampListeners]);
+  }, []);
+
+  // Load notes from the notebook store
+  const { reset: resetHistory } = history;
+  useEffect(() => {
+    // An edit still waiting to autosave belongs to the notebook being left, so it's saved there first
+    if (autoSaveTimeoutRef.current) {
+      clearTimeout(autoSaveTimeoutRef.current);
+      autoSaveTimeoutRef.current = null;
+      persistNotes();
+    }
+    loadedRef.current = null;
+    resetHistory(null);
+    setIsUnreadable(false);
+    if (!notebookId) return;
+
+    let cancelled = false;
+    getNotebook(notebookId)
+      .then((notebook) => {
+        if (cancelled || !editorRef.current) return;
+        editorRef.current.replaceChildren();
+        if (notebook) {
+          editorRef.current.appendChild(documentToDom(notebook.document, renderStamp));
+        }
+        loadedRef.current = { notebookId, videoFilename: videoFilenameRef.current };
+        resetHistory({ doc: notebook?.document ?? emptyDocument(), caret: 0 });
+        setHasChanges(false);
+        onDocumentChangeRef.current?.(notebook?.document ?? emptyDocument());
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        if (error instanceof UnreadableNotebookError) {
+          editorRef.current?.replaceChildren();
+          setIsUnreadable(true);
+          toast.error("These notes could not be read. They were left as stored and won't be saved over.", { duration: 8000 });
+        } else {
+          toast.error("Could not load notes");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [notebookId, renderStamp, resetHistory, persistNotes]);
 
   // Auto-save with debounce
   const autoSave = useCallback(() => {
-    if (!videoFilename || !editorRef.current) return;
-    
-    localStorage.setItem(`vidnotes_${videoFilename}`, editorRef.current.innerHTML);
-    setHasChanges(false);
-  }, [videoFilename]);
+    persistNotes();
+  }, [persistNotes]);
 
-  const handleInput = () => {
+  const scheduleAutoSave = (delay: number) => {
     setHasChanges(true);
     
     // Clear existing timeout
@@ -113,12 +281,50 @@ export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({
       clearTimeout(autoSaveTimeoutRef.current);
     }
     
-    // Auto-save after 1 second of no typing
     autoSaveTimeoutRef.current = setTimeout(() => {
       autoSave();
-    }, 1000);
+    }, delay);
+  };
+
+  const handleInput = () => {
+    follow.notifyTyping();
+    recordHistory(true);
+    // Auto-save after 1 second of no typing
+    scheduleAutoSave(1000);
   };
 
+  const restoreSnapshot = (snapshot: EditorSnapshot | null) => {
+    if (!snapshot || !editorRef.current) return;
+
+    editorRef.current.replaceChildren(documentToDom(snapshot.doc, renderStamp));
+    editorRef.current.focus();
+    setCaretOffset(editorRef.current, snapshot.caret);
+    scheduleAutoSave(500);
+  };
+
+  const undo = () => restoreSnapshot(history.undo());
+  const redo = () => restoreSnapshot(history.redo());
+
+  // The browser's own history doesn't know about stamps or rebuilt DOM, so its undo/redo (Edit
+  // menu, shake-to-undo, etc.) is routed through ours as well. React's onBeforeInput doesn't carry
+  // inputType, hence the native listener.
+  const restoreSnapshotRef = useRef(restoreSnapshot);
+  restoreSnapshotRef.current = restoreSnapshot;
+  const { undo: undoHistory, redo: redoHistory } = history;
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    const handleBeforeInput = (e: InputEvent) => {
+      if (e.inputType === 'historyUndo' || e.inputType === 'historyRedo') {
+        e.preventDefault();
+        restoreSnapshotRef.current(e.inputType === 'historyUndo' ? undoHistory() : redoHistory());
+      }
+    };
+    editor.addEventListener('beforeinput', handleBeforeInput);
+    return () => editor.removeEventListener('beforeinput', handleBeforeInput);
+  }, [notebookId, videoFilename, undoHistory, redoHistory]);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -128,86 +334,195 @@ export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({
     };
   }, []);
 
-  const saveNotes = () => {
-    if (!videoFilename || !editorRef.current) {
+  const saveNotes = async () => {
+    if (!notebookId || !editorRef.current) {
       toast.error("No video loaded", { duration: 300 });
       return;
     }
     
-    localStorage.setItem(`vidnotes_${videoFilename}`, editorRef.current.innerHTML);
-    setHasChanges(false);
-    toast.success("Notes saved", { duration: 300 });
+    if (await persistNotes()) {
+      toast.success("Notes saved", { duration: 300 });
+    }
   };
 
-  const clearNotes = () => {
-    if (!videoFilename || !editorRef.current) return;
+  // Clearing keeps the notebook (and its video settings) so the clear can be undone like any edit
+  const clearNotes = async () => {
+    if (!notebookId || !editorRef.current) return;
     
     if (window.confirm("Are you sure you want to delete all notes for this video?")) {
-      localStorage.removeItem(`vidnotes_${videoFilename}`);
-      editorRef.current.innerHTML = '';
-      setHasChanges(false);
-      toast.success("Notes deleted", { duration: 300 });
+      if (autoSaveTimeoutRef.current) {
+        clearTimeout(autoSaveTimeoutRef.current);
+      }
+      editorRef.current.replaceChildren();
+      recordHistory();
+      if (await persistNotes()) {
+        toast.success("Notes deleted. Press Ctrl+Z to restore them.", { duration: 3000 });
+      }
     }
   };
 
-  const exportNotes = () => {
+  const exportNotes = (format: ExportFormat) => {
     if (!videoFilename || !editorRef.current) {
       toast.error("No notes to export", { duration: 300 });
       return;
     }
 
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = editorRef.current.innerHTML;
+    const doc = domToDocument(editorRef.current);
+    const timecode = player.getTimecodeSettings();
+    const baseName = `${stripExtension(videoFilename)}_notes`;
+
+    if (format === 'html') {
+      exportHtmlReport(doc, baseName);
+      return;
+    } else if (format === 'notebook') {
+      exportNotebookFile();
+      return;
+    } else if (format === 'markdown') {
+      downloadFile(documentToMarkdown(doc, videoFilename, timecode), `${baseName}.md`, 'text/markdown');
+    } else if (format === 'srt' || format === 'vtt') {
+      const cues = documentToCues(doc, timecode, cueDuration);
+      if (!cues.length) {
+        toast.error("Subtitles need notes written after a time, frame or timecode stamp");
+        return;
+      }
+      if (format === 'srt') {
+        downloadFile(formatSrt(cues), `${baseName}.srt`, 'application/x-subrip');
+      } else {
+        downloadFile(formatVtt(cues), `${baseName}.vtt`, 'text/vtt');
+      }
+    } else {
+      const markers = documentToMarkers(doc, timecode.frameRate);
+      if (!markers.length) {
+        toast.error("Insert a stamp to export markers");
+        return;
+      }
+      const title = stripExtension(videoFilename);
+      const durationFrames = player.isReady() ? timeToFrame(player.getDuration(), timecode.frameRate) : undefined;
+      if (format === 'cmx3600') {
+        downloadFile(formatCmx3600Locators(markers, title, videoFilename, timecode, durationFrames), `${baseName}_locators.edl`, 'text/plain');
+      } else if (format === 'resolve-edl') {
+        downloadFile(formatResolveMarkerEdl(markers, title, timecode), `${baseName}_resolve_markers.edl`, 'text/plain');
+      } else if (format === 'premiere-csv') {
+        downloadFile(formatPremiereMarkerCsv(markers, timecode), `${baseName}_markers.csv`, 'text/csv');
+      } else {
+        downloadFile(formatFcpxmlMarkers(markers, title, videoFilename, timecode, durationFrames), `${baseName}.fcpxml`, 'application/xml');
+      }
+    }
     
-    // Convert stamp buttons to readable text
-    const stampButtons = tempDiv.querySelectorAll('button[data-stamp-id]');
-    stampButtons.forEach((btn) => {
-      const stampType = (btn as HTMLElement).dataset.stampType;
-      const stampValue = (btn as HTMLElement).dataset.stampValue;
-      let text = '';
-      
-      if (stampType === 'time' && stampValue) {
-        const seconds = parseFloat(stampValue);
-        text = `[${formatTime(seconds)}]`;
-      } else if (stampType === 'frame' && stampValue) {
-        text = `[Frame ${stampValue}]`;
+    toast.success("Notes exported", { duration: 300 });
+  };
+
+  // Saves first so the file carries exactly what's in the editor, with the notebook's video settings
+  const exportNotebookFile = async () => {
+    if (!notebookId || !videoFilename || !(await persistNotes())) return;
+
+    try {
+      const notebook = await getNotebook(notebookId);
+      if (!notebook) return;
+      downloadFile(serializeNotebook(notebook), `${videoFilename}${NOTEBOOK_FILE_EXTENSION}`, 'application/json');
+      toast.success("Notebook exported", { duration: 300 });
+    } catch {
+      toast.error("Could not export notebook");
+    }
+  };
+
+  // Thumbnails are grabbed from the loaded video; without one the report lists stamps and text only
+  const exportHtmlReport = async (doc: NoteDocument, baseName: string) => {
+    if (!videoFilename) return;
+
+    const timecode = player.getTimecodeSettings();
+    const video = player.getVideoElement();
+    const stamps = stampSections(doc).map((section) => section.stamp);
+    const thumbnails = new Map<Stamp, string>();
+
+    if (video?.currentSrc && player.isReady() && stamps.length) {
+      const toastId = toast.loading(`Capturing ${stamps.length} thumbnails...`);
+      try {
+        const times = stamps.map((stamp) =>
+          stamp.type === 'time' ? stamp.value : frameToSeekTime(stamp.value, timecode.frameRate)
+        );
+        const frames = await captureFrames(video.currentSrc, times, REPORT_THUMBNAIL_WIDTH);
+        stamps.forEach((stamp, index) => {
+          const thumbnail = frames.get(times[index]);
+          if (thumbnail) thumbnails.set(stamp, thumbnail);
+        });
+      } catch {
+        toast.error("Could not capture thumbnails; exporting the report without them");
+      } finally {
+        toast.dismiss(toastId);
       }
-      
-      btn.replaceWith(document.createTextNode(text));
+    }
+
+    const html = buildHtmlReport(doc, {
+      filename: videoFilename,
+      duration: player.isReady() ? player.getDuration() : null,
+      timecode,
+      thumbnails,
     });
+    downloadFile(html, `${baseName}.html`, 'text/html');
+    toast.success("Report exported", { duration: 300 });
+  };
 
-    // Get plain text content
-    const content = tempDiv.innerText || tempDiv.textContent || '';
-    
-    // Create markdown content
-    const markdown = `# Notes for ${videoFilename}\n\n${content}`;
-    
-    // Create and download file
-    const blob = new Blob([markdown], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${videoFilename.replace(/\.[^/.]+$/, '')}_notes.md`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    toast.success("Notes exported", { duration: 300 });
+  const chooseImportFile = (mode: ImportMergeMode) => {
+    importModeRef.current = mode;
+    importInputRef.current?.click();
+  };
+
+  const importNotes = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !editorRef.current) return;
+
+    const timecode = player.getTimecodeSettings();
+    let notes: ImportedNote[] | null;
+    try {
+      notes = parseImportFile(file.name, await file.text(), timecode);
+    } catch {
+      notes = null;
+    }
+    if (!notes?.length) {
+      toast.error(`No cues or markers found in ${file.name}`);
+      return;
+    }
+
+    const merged = mergeImportedNotes(domToDocument(editorRef.current), notes, importModeRef.current, timecode.frameRate);
+    editorRef.current.replaceChildren(documentToDom(merged, renderStamp));
+    recordHistory();
+    scheduleAutoSave(500);
+    toast.success(`Imported ${notes.length} ${notes.length === 1 ? 'note' : 'notes'} from ${file.name}`, { duration: 2000 });
+  };
+
+  const editCueDuration = () => {
+    const input = window.prompt("Longest time a subtitle stays on screen, in seconds", cueDuration.toString());
+    if (input === null) return;
+    const seconds = parseFloat(input);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      toast.error(`Invalid duration: ${input}`);
+      return;
+    }
+    setCueDuration(seconds);
+    localStorage.setItem("alairy-cue-duration", seconds.toString());
+  };
+
+  const toggleFollowing = () => {
+    const next = !isFollowing;
+    setIsFollowing(next);
+    toast.success(next ? "Following playback" : "Stopped following playback", { duration: 300 });
+  };
+
+  const toggleLoopingRanges = () => {
+    const next = !isLoopingRanges;
+    setIsLoopingRanges(next);
+    toast.success(next ? "Clicking a range loops it" : "Clicking a range jumps to its start", { duration: 300 });
   };
 
   const insertTimestamp = () => {
-    if (!getCurrentTime || !videoFilename || !editorRef.current) {
+    if (!player.isReady() || !videoFilename || !editorRef.current) {
       toast.error("Video player not ready", { duration: 300 });
       return;
     }
     
-    const time = getCurrentTime();
-    const hours = Math.floor(time / 3600);
-    const minutes = Math.floor((time % 3600) / 60);
-    const seconds = Math.floor(time % 60);
-    const timeStr = `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-    
+    const time = player.getTime();
     const stamp: Stamp = {
       id: `time-${Date.now()}`,
       type: 'time',
@@ -215,17 +530,17 @@ export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({
       label: 'Timestamp'
     };
     
-    insertStampButton(stamp, timeStr);
+    insertStampButton(stamp);
     toast.success("Timestamp inserted", { duration: 300 });
   };
 
   const insertFrameStamp = () => {
-    if (!getCurrentFrame || !videoFilename || !editorRef.current) {
+    if (!player.isReady() || !videoFilename || !editorRef.current) {
       toast.error("Video player not ready", { duration: 300 });
       return;
     }
     
-    const frame = getCurrentFrame();
+    const frame = player.getFrame();
     const stamp: Stamp = {
       id: `frame-${Date.now()}`,
       type: 'frame',
@@ -233,65 +548,124 @@ export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({
       label: 'Frame'
     };
     
-    insertStampButton(stamp, `F${frame}`);
+    insertStampButton(stamp);
     toast.success("Frame stamp inserted", { duration: 300 });
   };
 
-  const insertStampButton = (stamp: Stamp, displayText: string) => {
+  const insertTimecodeStamp = () => {
+    if (!player.isReady() || !videoFilename || !editorRef.current) {
+      toast.error("Video player not ready", { duration: 300 });
+      return;
+    }
+    
+    const frame = player.getFrame();
+    const stamp: Stamp = {
+      id: `timecode-${Date.now()}`,
+      type: 'timecode',
+      value: frame,
+      label: 'Timecode'
+    };
+    
+    insertStampButton(stamp);
+    toast.success("Timecode stamp inserted", { duration: 300 });
+  };
+
+  const insertRangeStamp = (start: number, end: number) => {
+    if (!player.isReady() || !videoFilename || !editorRef.current) {
+      toast.error("Video player not ready", { duration: 300 });
+      return;
+    }
+
+    const stamp: Stamp = {
+      id: `range-${Date.now()}`,
+      type: 'range',
+      value: start,
+      end,
+      label: 'Range'
+    };
+
+    insertStampButton(stamp);
+    toast.success(`Range ${formatStampText(stamp, player.getTimecodeSettings())} inserted`, { duration: 300 });
+  };
+
+  // Replaces the selection (or appends, if the caret is outside the editor) and moves the caret after the content
+  const insertAtSelection = (content: Node) => {
     if (!editorRef.current) return;
 
     const selection = window.getSelection();
-    const range = selection?.getRangeAt(0);
-    
-    const stampButton = document.createElement('button');
-    stampButton.contentEditable = 'false';
-    stampButton.className = 'inline-flex items-center gap-1 mx-0.5 text-xs font-semibold stamp-text hover:opacity-70 transition-opacity cursor-pointer';
-    stampButton.dataset.stampId = stamp.id;
-    stampButton.dataset.stampType = stamp.type;
-    stampButton.dataset.stampValue = stamp.value.toString();
-    stampButton.dataset.stampLabel = stamp.label;
-    
-    const icon = document.createElement('span');
-    icon.innerHTML = stamp.type === 'time' 
-      ? '<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>'
-      : '<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="22" x2="2" y1="12" y2="12"/><path d="M5.45 5.11 2 12v6a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2v-6l-3.45-6.89A2 2 0 0 0 16.76 4H7.24a2 2 0 0 0-1.79 1.11z"/><line x1="6" x2="6.01" y1="16" y2="16"/><line x1="10" x2="10.01" y1="16" y2="16"/></svg>';
-    
-    const text = document.createElement('span');
-    text.textContent = displayText;
-    text.contentEditable = 'false';
-    
-    stampButton.appendChild(icon);
-    stampButton.appendChild(text);
-    
-    stampButton.addEventListener('click', (e) => {
-      e.preventDefault();
-      handleStampClick(stamp);
-    });
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    const lastNode = content instanceof DocumentFragment ? content.lastChild : content;
     
     if (range && editorRef.current.contains(range.commonAncestorContainer)) {
       range.deleteContents();
-      range.insertNode(stampButton);
-      range.setStartAfter(stampButton);
-      range.setEndAfter(stampButton);
+      range.insertNode(content);
+      if (lastNode) {
+        range.setStartAfter(lastNode);
+        range.setEndAfter(lastNode);
+      }
       selection?.removeAllRanges();
       selection?.addRange(range);
     } else {
-      editorRef.current.appendChild(stampButton);
+      editorRef.current.appendChild(content);
     }
-    
-    setHasChanges(true);
+  };
+
+  const insertStampButton = (stamp: Stamp) => {
+    if (!editorRef.current) return;
+
+    insertAtSelection(renderStamp(stamp));
+    recordHistory();
     editorRef.current.focus();
     
     // Auto-save after inserting stamp
-    if (autoSaveTimeoutRef.current) {
-      clearTimeout(autoSaveTimeoutRef.current);
-    }
-    autoSaveTimeoutRef.current = setTimeout(() => {
-      autoSave();
-    }, 500);
+    scheduleAutoSave(500);
+  };
+
+  // Rich paste is rebuilt from the note schema so foreign markup never enters the editor
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const html = e.clipboardData.getData('text/html');
+    const text = e.clipboardData.getData('text/plain');
+    const doc = html && !plainPasteRef.current ? htmlToDocument(html) : plainTextToDocument(text);
+    plainPasteRef.current = false;
+
+    insertAtSelection(sanitizeToEditorDom(doc, renderStamp));
+    recordHistory();
+    scheduleAutoSave(1000);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // A Ctrl+Shift+V that produced no paste (empty clipboard, access denied) mustn't carry over
+    plainPasteRef.current = false;
+
+    // Stamp shortcuts insert at the caret, so they only apply while writing
+    const action = findShortcut(keymap, e, NOTES_ACTIONS);
+    if (action) {
+      e.preventDefault();
+      if (action === 'insertTimeStamp') insertTimestamp();
+      else if (action === 'insertFrameStamp') insertFrameStamp();
+      else if (action === 'insertTimecodeStamp') insertTimecodeStamp();
+      return;
+    }
+
+    // Ctrl+Z undoes; Ctrl+Shift+Z and Ctrl+Y redo
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && !e.altKey && (key === 'z' || key === 'y')) {
+      e.preventDefault();
+      if (key === 'z' && !e.shiftKey) {
+        undo();
+      } else {
+        redo();
+      }
+      return;
+    }
+
+    // Ctrl+Shift+V: the paste event that follows inserts plain text only
+    if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'v') {
+      plainPasteRef.current = true;
+      return;
+    }
+    
     if (e.key === 'Backspace' && editorRef.current) {
       const selection = window.getSelection();
       if (!selection || selection.rangeCount === 0) return;
@@ -309,7 +683,8 @@ export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({
           if (now - lastBackspaceTime < 500) {
             e.preventDefault();
             nextSibling.remove();
-            setHasChanges(true);
+            recordHistory();
+            scheduleAutoSave(500);
             toast.success("Stamp deleted", { duration: 300 });
             setLastBackspaceTime(0);
             return;
@@ -328,7 +703,8 @@ export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({
           if (now - lastBackspaceTime < 500) {
             e.preventDefault();
             prevNode.remove();
-            setHasChanges(true);
+            recordHistory();
+            scheduleAutoSave(500);
             toast.success("Stamp deleted", { duration: 300 });
             setLastBackspaceTime(0);
             return;
@@ -355,9 +731,9 @@ export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({
             variant="ghost"
             size="icon"
             onClick={insertTimestamp}
-            disabled={!videoFilename}
+            disabled={!notebookId}
             className="hover:bg-accent/20"
-            title="Insert timestamp"
+            title={withShortcut("Insert timestamp", keymap, 'insertTimeStamp')}
           >
             <Clock className="w-4 h-4" />
           </Button>
@@ -365,17 +741,69 @@ export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({
             variant="ghost"
             size="icon"
             onClick={insertFrameStamp}
-            disabled={!videoFilename}
+            disabled={!notebookId}
             className="hover:bg-accent/20"
-            title="Insert frame stamp"
+            title={withShortcut("Insert frame stamp", keymap, 'insertFrameStamp')}
           >
             <Frame className="w-4 h-4" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={insertTimecodeStamp}
+            disabled={!notebookId}
+            className="hover:bg-accent/20"
+            title={withShortcut("Insert timecode stamp", keymap, 'insertTimecodeStamp')}
+          >
+            <Timer className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={undo}
+            disabled={!notebookId || !history.canUndo}
+            className="hover:bg-accent/20"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={redo}
+            disabled={!notebookId || !history.canRedo}
+            className="hover:bg-accent/20"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={toggleFollowing}
+            disabled={!notebookId}
+            className={isFollowing ? "bg-accent/30 text-primary hover:bg-accent/40" : "hover:bg-accent/20"}
+            title={isFollowing ? "Stop following playback" : "Follow playback: highlight and scroll to the current stamp"}
+            aria-pressed={isFollowing}
+          >
+            <Crosshair className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={toggleLoopingRanges}
+            disabled={!notebookId}
+            className={isLoopingRanges ? "bg-accent/30 text-primary hover:bg-accent/40" : "hover:bg-accent/20"}
+            title={isLoopingRanges ? "Stop looping ranges on click" : "Loop ranges on click (Alt+click always loops)"}
+            aria-pressed={isLoopingRanges}
+          >
+            <Repeat className="w-4 h-4" />
+          </Button>
           <Button
             variant="ghost"
             size="icon"
             onClick={clearNotes}
-            disabled={!videoFilename}
+            disabled={!notebookId}
             className="hover:bg-destructive/20 hover:text-destructive"
             title="Delete notes"
           >
@@ -385,23 +813,69 @@ export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({
             variant="default"
             size="sm"
             onClick={saveNotes}
-            disabled={!videoFilename || !hasChanges}
+            disabled={!notebookId || !hasChanges}
             className="bg-gradient-primary hover:opacity-90"
             title="Save notes"
           >
             <Save className="w-4 h-4 mr-2" />
             Save
           </Button>
-          <Button
-            variant="default"
-            size="sm"
-            onClick={exportNotes}
-            disabled={!videoFilename}
-            className="bg-gradient-primary hover:opacity-90"
-            title="Export notes"
-          >
-            <Download className="w-4 h-4" />
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={!notebookId}
+                className="hover:bg-accent/20"
+                title="Import subtitles or markers"
+              >
+                <Upload className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" container={fullscreenElement}>
+              <DropdownMenuLabel>Import SRT, VTT, Frame.io CSV or EDL</DropdownMenuLabel>
+              <DropdownMenuItem onSelect={() => chooseImportFile('append')}>Append to notes...</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => chooseImportFile('interleave')}>Merge in time order...</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={IMPORT_FILE_TYPES}
+            onChange={importNotes}
+            className="hidden"
+          />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="default"
+                size="sm"
+                disabled={!notebookId}
+                className="bg-gradient-primary hover:opacity-90"
+                title="Export notes"
+              >
+                <Download className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" container={fullscreenElement}>
+              <DropdownMenuLabel>Export as</DropdownMenuLabel>
+              <DropdownMenuItem onSelect={() => exportNotes('markdown')}>Markdown (.md)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportNotes('html')}>HTML report with thumbnails (.html)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportNotes('notebook')}>Alairy notebook (.alairy.json)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportNotes('srt')}>SubRip subtitles (.srt)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportNotes('vtt')}>WebVTT subtitles (.vtt)</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Timeline markers</DropdownMenuLabel>
+              <DropdownMenuItem onSelect={() => exportNotes('cmx3600')}>CMX3600 EDL locators (.edl)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportNotes('fcpxml')}>Final Cut Pro XML (.fcpxml)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportNotes('premiere-csv')}>Premiere Pro markers (.csv)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportNotes('resolve-edl')}>DaVinci Resolve markers (.edl)</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={editCueDuration}>
+                Subtitle length: up to {cueDuration}s
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           {hasChanges && (
             <span title="Auto-saving...">
               <Loader2 className="w-4 h-4 text-amber-500 animate-spin" />
@@ -411,24 +885,35 @@ export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({
       </div>
       
       <div className="flex-1 overflow-hidden min-h-0">
-        {videoFilename ? (
+        {videoFilename && notebookId ? (
           <div className="h-full flex flex-col p-4">
             <p className="text-sm text-muted-foreground mb-2 flex-shrink-0">
               Notes for: <span className="text-foreground font-medium">{videoFilename}</span>
             </p>
+            {isUnreadable && (
+              <p className="text-sm text-destructive mb-2 flex-shrink-0">
+                The saved notes for this video could not be read, so editing is off to keep them from being overwritten.
+              </p>
+            )}
             <div
               ref={editorRef}
-              contentEditable
+              contentEditable={!isUnreadable}
               onInput={handleInput}
               onKeyDown={handleKeyDown}
+              onClick={handleEditorClick}
+              onPaste={handlePaste}
+              onBlur={() => {
+                plainPasteRef.current = false;
+              }}
+              onScroll={follow.handleScroll}
               className="flex-1 overflow-auto p-3 rounded-md border border-input bg-secondary/50 focus:border-primary focus:outline-none transition-colors text-sm min-h-0"
-              data-placeholder="Write your notes here... Use Time/Frame buttons to insert stamps. Double backspace to delete stamps."
+              data-placeholder="Write your notes here... Use Time/Frame/Timecode buttons to insert stamps. Double backspace to delete stamps. Ctrl+Shift+V pastes plain text."
             />
           </div>
         ) : (
           <div className="h-full flex items-center justify-center">
             <p className="text-muted-foreground text-center">
-              Load a video to start taking notes
+              {videoFilename ? "Loading notes..." : "Load a video to start taking notes"}
             </p>
           </div>
         )}
@@ -443,6 +928,17 @@ export const NotesPanel = forwardRef<NotesPanelHandle, NotesPanelProps>(({
         [contenteditable] button {
           user-select: none;
         }
+        /* Follow mode: the stamp that last played and its line */
+        .follow-active-line {
+          background: hsl(var(--primary) / 0.12);
+          border-radius: 0.25rem;
+          transition: background-color 0.2s;
+        }
+        .follow-active-stamp {
+          outline: 2px solid currentColor;
+          outline-offset: 1px;
+          border-radius: 0.25rem;
+        }
         /* Stamp text colors per theme */
         .stamp-text {
           color: hsl(217 91% 60%);
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { notebookName } from "@/lib/notes-db";
+import type { ConflictPolicy, RestorePlan, RestoreStatus } from "@/lib/workspace-backup";
+
+interface RestoreDialogProps {
+  plan: RestorePlan | null;
+  onCancel: () => void;
+  onRestore: (policy: ConflictPolicy) => void;
+}
+
+const STATUS_LABELS: Record<RestoreStatus, string> = {
+  new: "New",
+  updated: "Updated (backup is newer)",
+  conflicting: "Conflicting (edited here since the backup)",
+  unchanged: "Unchanged",
+};
+
+const POLICY_LABELS: Record<ConflictPolicy, string> = {
+  "keep-current": "Keep the notes in this browser",
+  "use-backup": "Replace them with the backup",
+  "keep-both": "Keep both (the backup is added as a copy)",
+};
+
+/** Dry-run summary of a workspace restore; nothing is written until it's confirmed. */
+export const RestoreDialog = ({ plan, onCancel, onRestore }: RestoreDialogProps) => {
+  const [policy, setPolicy] = useState<ConflictPolicy>("keep-current");
+
+  const count = (status: RestoreStatus) => plan?.items.filter((item) => item.status === status).length ?? 0;
+  const conflicts = plan?.items.filter((item) => item.status === "conflicting") ?? [];
+  const hasChanges = !!plan && (plan.items.some((item) => item.status !== "unchanged") || plan.changedSettings.length > 0);
+
+  return (
+    <Dialog open={!!plan} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Restore backup</DialogTitle>
+          <DialogDescription>Review what the backup would change before restoring it.</DialogDescription>
+        </DialogHeader>
+
+        {plan && (
+          <div className="space-y-4 text-sm">
+            <ul className="space-y-1">
+              {(Object.keys(STATUS_LABELS) as RestoreStatus[]).map((status) => (
+                <li key={status} className="flex justify-between">
+                  <span>{STATUS_LABELS[status]}</span>
+                  <span className="tabular-nums font-medium">{count(status)}</span>
+                </li>
+              ))}
+              <li className="flex justify-between">
+                <span>Settings that would change</span>
+                <span className="tabular-nums font-medium">{plan.changedSettings.length}</span>
+              </li>
+              {plan.skipped > 0 && (
+                <li className="flex justify-between text-destructive">
+                  <span>Unreadable notebooks (skipped)</span>
+                  <span className="tabular-nums font-medium">{plan.skipped}</span>
+                </li>
+              )}
+            </ul>
+
+            {conflicts.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-medium">Conflicting notebooks</p>
+                <ul className="max-h-32 overflow-auto text-muted-foreground">
+                  {conflicts.map(({ notebook }) => (
+                    <li key={notebook.id} className="truncate">{notebookName(notebook)}</li>
+                  ))}
+                </ul>
+                <RadioGroup value={policy} onValueChange={(value) => setPolicy(value as ConflictPolicy)}>
+                  {(Object.keys(POLICY_LABELS) as ConflictPolicy[]).map((option) => (
+                    <div key={option} className="flex items-center gap-2">
+                      <RadioGroupItem value={option} id={`restore-${option}`} />
+                      <Label htmlFor={`restore-${option}`}>{POLICY_LABELS[option]}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onRestore(policy)} disabled={!hasChanges}>
+            {hasChanges ? "Restore" : "Nothing to restore"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
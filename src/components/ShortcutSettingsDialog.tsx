@@ -0,0 +1,206 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { updateShortcutSettings, useShortcutSettings } from "@/hooks/use-shortcut-settings";
+import {
+  DEFAULT_SHORTCUT_SETTINGS,
+  SHORTCUTS,
+  SHORTCUT_GROUPS,
+  SKIP_TIERS,
+  assignBinding,
+  eventToBinding,
+  formatBinding,
+  isReservedBinding,
+  shortcutLabel,
+  type Keymap,
+  type ShortcutAction,
+  type SkipSeconds,
+  type SkipTier,
+} from "@/lib/shortcuts";
+
+interface ShortcutSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SKIP_TIER_LABELS: Record<SkipTier, string> = {
+  short: "Short skip",
+  medium: "Medium skip",
+  long: "Long skip",
+};
+
+const toSkipInputs = (skipSeconds: SkipSeconds) =>
+  Object.fromEntries(Object.entries(skipSeconds).map(([tier, seconds]) => [tier, String(seconds)])) as Record<SkipTier, string>;
+
+/** Remaps the player and notes shortcuts and sets the skip lengths; nothing changes until saved. */
+export const ShortcutSettingsDialog = ({ open, onOpenChange }: ShortcutSettingsDialogProps) => {
+  const settings = useShortcutSettings();
+  const [keymap, setKeymap] = useState<Keymap>(settings.keymap);
+  const [skipInputs, setSkipInputs] = useState(() => toSkipInputs(settings.skipSeconds));
+  // The action waiting for its new keys
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  // Recording Space would otherwise click the button on key-up and start recording again
+  const ignoreClickRef = useRef(false);
+
+  // Each opening starts from the saved settings
+  useEffect(() => {
+    if (!open) return;
+    setKeymap(settings.keymap);
+    setSkipInputs(toSkipInputs(settings.skipSeconds));
+    setRecording(null);
+  }, [open, settings]);
+
+  const parseSkip = (tier: SkipTier) => {
+    const seconds = parseFloat(skipInputs[tier]);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+  };
+
+  const skipSeconds = Object.fromEntries(
+    SKIP_TIERS.map((tier) => [tier, parseSkip(tier) ?? settings.skipSeconds[tier]])
+  ) as SkipSeconds;
+
+  const labelFor = (action: ShortcutAction) =>
+    shortcutLabel(SHORTCUTS.find((shortcut) => shortcut.action === action)!, skipSeconds);
+
+  const handleRecordKeyDown = (action: ShortcutAction, e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (recording !== action) return;
+    // Tab still moves focus, so the dialog stays usable from the keyboard; Esc is handled by the dialog
+    if (e.key === "Escape") return;
+    if (e.key === "Tab") {
+      setRecording(null);
+      return;
+    }
+    e.preventDefault();
+
+    if (e.key === "Backspace" || e.key === "Delete") {
+      setKeymap((current) => ({ ...current, [action]: "" }));
+      setRecording(null);
+      return;
+    }
+
+    const binding = eventToBinding(e);
+    if (!binding) return;
+    if (isReservedBinding(binding)) {
+      toast.error(`${formatBinding(binding)} is taken by note search`, { duration: 2000 });
+      return;
+    }
+
+    const { keymap: next, displaced } = assignBinding(keymap, action, binding);
+    setKeymap(next);
+    setRecording(null);
+    ignoreClickRef.current = e.key === " ";
+    if (displaced) {
+      toast.success(`${formatBinding(binding)} was removed from "${labelFor(displaced)}"`, { duration: 2000 });
+    }
+  };
+
+  const resetToDefaults = () => {
+    setKeymap(DEFAULT_SHORTCUT_SETTINGS.keymap);
+    setSkipInputs(toSkipInputs(DEFAULT_SHORTCUT_SETTINGS.skipSeconds));
+    setRecording(null);
+  };
+
+  const save = () => {
+    const invalid = SKIP_TIERS.find((tier) => parseSkip(tier) === null);
+    if (invalid) {
+      toast.error(`Invalid ${SKIP_TIER_LABELS[invalid].toLowerCase()} length: ${skipInputs[invalid]}`);
+      return;
+    }
+    updateShortcutSettings({ keymap, skipSeconds });
+    onOpenChange(false);
+    toast.success("Shortcuts saved", { duration: 300 });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-lg"
+        onEscapeKeyDown={(e) => {
+          // Esc cancels recording rather than closing the dialog
+          if (recording) {
+            e.preventDefault();
+            setRecording(null);
+          }
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Click a shortcut and press the new keys. Esc cancels; Backspace leaves the action unassigned.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-5 overflow-auto pr-1 text-sm">
+          <div className="grid grid-cols-3 gap-3">
+            {SKIP_TIERS.map((tier) => (
+              <div key={tier} className="space-y-1">
+                <Label htmlFor={`skip-${tier}`}>{SKIP_TIER_LABELS[tier]} (s)</Label>
+                <Input
+                  id={`skip-${tier}`}
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  value={skipInputs[tier]}
+                  onChange={(e) => setSkipInputs((current) => ({ ...current, [tier]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          {SHORTCUT_GROUPS.map((group) => (
+            <div key={group} className="space-y-1">
+              <p className="font-medium">{group}</p>
+              <ul className="space-y-1">
+                {SHORTCUTS.filter((shortcut) => shortcut.group === group).map(({ action }) => (
+                  <li key={action} className="flex items-center justify-between gap-2">
+                    <span className="text-muted-foreground">{labelFor(action)}</span>
+                    <Button
+                      variant={recording === action ? "default" : "outline"}
+                      size="sm"
+                      className="min-w-32 tabular-nums"
+                      onClick={() => {
+                        if (ignoreClickRef.current) {
+                          ignoreClickRef.current = false;
+                          return;
+                        }
+                        setRecording(recording === action ? null : action);
+                      }}
+                      onKeyDown={(e) => handleRecordKeyDown(action, e)}
+                      onBlur={() => {
+                        if (recording === action) setRecording(null);
+                      }}
+                    >
+                      {recording === action ? "Press keys…" : formatBinding(keymap[action])}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="ghost" onClick={resetToDefaults}>
+            Reset to defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={save}>Save</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
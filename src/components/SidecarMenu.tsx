@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from "react";
+import { FolderSync } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { downloadFile } from "@/lib/download";
+import {
+  getLinkedFolder,
+  hasFolderPermission,
+  isFolderSyncSupported,
+  linkFolder,
+  pullSidecar,
+  sidecarFilename,
+  unlinkFolder,
+  writeSidecar,
+} from "@/lib/folder-sync";
+import { NOTEBOOK_FILE_EXTENSION, parseNotebookFile, serializeNotebook } from "@/lib/notebook-file";
+import { getNotebook, isQuotaExceeded, putNotebook } from "@/lib/notes-db";
+
+interface SidecarMenuProps {
+  // The loaded video's notebook; sidecars only make sense for notes tied to a video file
+  notebookId: string | null;
+  videoFilename: string | null;
+  // Called after the notebook was replaced from a sidecar so the notes and settings reload
+  onNotebookReplaced: () => void;
+}
+
+/** Links a notes folder for sidecar files, with manual download/upload of the sidecar as a fallback. */
+export const SidecarMenu = ({ notebookId, videoFilename, onNotebookReplaced }: SidecarMenuProps) => {
+  const [folder, setFolder] = useState<FileSystemDirectoryHandle | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const isSupported = isFolderSyncSupported();
+
+  useEffect(() => {
+    if (!isSupported) return;
+    getLinkedFolder()
+      .then(async (linked) => {
+        setFolder(linked);
+        setIsConnected(!!linked && (await hasFolderPermission(linked)));
+      })
+      .catch(() => toast.error("Could not open notes storage"));
+  }, [isSupported]);
+
+  // Brings the folder and the open video's notes in step: a newer sidecar wins, otherwise ours is written
+  const syncOpenNotebook = async () => {
+    if (!notebookId || !videoFilename) return;
+    if (await pullSidecar(notebookId, videoFilename)) {
+      onNotebookReplaced();
+      toast.success(`Loaded newer notes from ${sidecarFilename(videoFilename)}`, { duration: 2000 });
+      return;
+    }
+    const notebook = await getNotebook(notebookId);
+    if (notebook?.document.blocks.length) await writeSidecar(notebook);
+  };
+
+  const chooseFolder = async () => {
+    try {
+      const linked = await linkFolder();
+      if (!linked) return;
+      setFolder(linked);
+      setIsConnected(true);
+      await syncOpenNotebook();
+      toast.success(`Notes will be saved beside your footage in ${linked.name}`, { duration: 2000 });
+    } catch {
+      toast.error("Could not link the folder");
+    }
+  };
+
+  // Runs from a click: browsers only grant folder access again while handling one
+  const reconnectFolder = async () => {
+    if (!folder) return;
+    if (!(await hasFolderPermission(folder, true))) {
+      toast.error(`No permission to write to ${folder.name}`);
+      return;
+    }
+    setIsConnected(true);
+    try {
+      await syncOpenNotebook();
+    } catch {
+      toast.error(`Could not sync with ${folder.name}`);
+    }
+  };
+
+  // Opening a video can't renew a lapsed grant itself, so offer the click that can
+  const reconnectRef = useRef(reconnectFolder);
+  reconnectRef.current = reconnectFolder;
+  useEffect(() => {
+    if (!notebookId || !folder || isConnected) return;
+    toast(`Notes in ${folder.name} can't be read until access is allowed again`, {
+      duration: 10000,
+      action: { label: "Reconnect notes folder", onClick: () => reconnectRef.current() },
+    });
+  }, [notebookId, folder, isConnected]);
+
+  const removeFolder = async () => {
+    try {
+      await unlinkFolder();
+      setFolder(null);
+      setIsConnected(false);
+      toast.success("Notes folder unlinked", { duration: 300 });
+    } catch {
+      toast.error("Could not unlink the folder");
+    }
+  };
+
+  const downloadSidecar = async () => {
+    if (!notebookId || !videoFilename) return;
+    try {
+      const notebook = await getNotebook(notebookId);
+      if (!notebook) {
+        toast.error("No notes to export", { duration: 300 });
+        return;
+      }
+      downloadFile(serializeNotebook(notebook), sidecarFilename(videoFilename), "application/json");
+      toast.success(`Save ${sidecarFilename(videoFilename)} next to the video`, { duration: 2000 });
+    } catch {
+      toast.error("Could not export notebook");
+    }
+  };
+
+  const uploadSidecar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !notebookId) return;
+
+    const sidecar = parseNotebookFile(await file.text());
+    if (!sidecar) {
+      toast.error(`${file.name} is not an Alairy notebook file`);
+      return;
+    }
+    if (sidecar.id !== notebookId) {
+      toast.error(`${file.name} belongs to a different video. Import it from the library instead.`);
+      return;
+    }
+
+    try {
+      const stored = await getNotebook(notebookId);
+      if (
+        stored?.document.blocks.length &&
+        stored.updatedAt > sidecar.updatedAt &&
+        !window.confirm(`The notes in this browser are newer than ${file.name}. Replace them anyway?`)
+      ) {
+        return;
+      }
+      await putNotebook(sidecar);
+      onNotebookReplaced();
+      toast.success(`Loaded notes from ${file.name}`, { duration: 300 });
+    } catch (error) {
+      toast.error(isQuotaExceeded(error) ? "Browser storage is full, so the notes were not loaded." : "Could not load notes");
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="icon"
+            title={folder ? `Notes folder: ${folder.name}` : "Sidecar files"}
+            className={folder && !isConnected ? "text-amber-500" : undefined}
+          >
+            <FolderSync className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {isSupported ? (
+            <>
+              <DropdownMenuLabel>
+                {folder ? `Notes folder: ${folder.name}` : "Save notes beside your footage"}
+              </DropdownMenuLabel>
+              {folder && !isConnected && (
+                <DropdownMenuItem onSelect={reconnectFolder}>Reconnect notes folder</DropdownMenuItem>
+              )}
+              <DropdownMenuItem onSelect={chooseFolder}>{folder ? "Change folder..." : "Link folder..."}</DropdownMenuItem>
+              {folder && <DropdownMenuItem onSelect={removeFolder}>Unlink folder</DropdownMenuItem>}
+            </>
+          ) : (
+            <DropdownMenuLabel className="font-normal text-muted-foreground">
+              This browser can't link a folder; move sidecar files by hand instead.
+            </DropdownMenuLabel>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={downloadSidecar} disabled={!notebookId}>
+            Download sidecar file
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => uploadInputRef.current?.click()} disabled={!notebookId}>
+            Load sidecar file...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={uploadInputRef}
+        type="file"
+        accept={`${NOTEBOOK_FILE_EXTENSION},application/json`}
+        onChange={uploadSidecar}
+        className="hidden"
+      />
+    </>
+  );
+};
@@ -0,0 +1,69 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { formatStampText } from "@/lib/stamps";
+import type { TimecodeSettings } from "@/lib/timecode";
+import { timelinePercent, type TimelineMark } from "@/lib/timeline-marks";
+
+interface TimelineMarkersProps {
+  marks: TimelineMark[];
+  duration: number;
+  timecode: TimecodeSettings;
+  onSelect: (mark: TimelineMark) => void;
+}
+
+const TOOLTIP_LINES = 3;
+
+const markStyle = (mark: TimelineMark, duration: number) =>
+  mark.end === null
+    ? { left: timelinePercent(mark.start, duration) }
+    : { left: timelinePercent(mark.start, duration), width: timelinePercent(mark.end - mark.start, duration) };
+
+/**
+ * Stamp ticks and range bands drawn on the seek slider. The track itself stays free for seeking and
+ * dragging, so hovering (to read the note) and clicking (to jump) use a strip just above it.
+ */
+export const TimelineMarkers = ({ marks, duration, timecode, onSelect }: TimelineMarkersProps) => {
+  if (!duration) return null;
+
+  return (
+    <>
+      <div className="pointer-events-none absolute inset-x-0 top-1/2 h-2 -translate-y-1/2">
+        {marks.map((mark, index) => (
+          <div
+            key={`${mark.stamp.id}-${index}`}
+            className={
+              mark.end === null
+                ? "absolute -top-1.5 h-5 w-1 -translate-x-1/2 rounded-full bg-amber-400"
+                : "absolute inset-y-0 rounded-full bg-amber-400/40"
+            }
+            style={markStyle(mark, duration)}
+          />
+        ))}
+      </div>
+      <div className="pointer-events-none absolute inset-x-0 bottom-full mb-1.5 h-2">
+        {marks.map((mark, index) => (
+          <Tooltip key={`${mark.stamp.id}-${index}`}>
+            <TooltipTrigger asChild>
+              <button
+                onClick={() => onSelect(mark)}
+                className={
+                  mark.end === null
+                    ? "pointer-events-auto absolute inset-y-0 w-2 -translate-x-1/2 rounded-sm bg-amber-400/70 hover:bg-amber-300"
+                    : "pointer-events-auto absolute inset-y-0 min-w-2 rounded-sm bg-amber-400/40 hover:bg-amber-400/70"
+                }
+                style={markStyle(mark, duration)}
+                aria-label={`Jump to ${formatStampText(mark.stamp, timecode)}`}
+              />
+            </TooltipTrigger>
+            <TooltipContent className="max-w-xs">
+              <p className="font-semibold tabular-nums">{formatStampText(mark.stamp, timecode)}</p>
+              {mark.lines.slice(0, TOOLTIP_LINES).map((line, lineIndex) => (
+                <p key={lineIndex} className="line-clamp-2">{line}</p>
+              ))}
+              {mark.lines.length > TOOLTIP_LINES && <p className="text-muted-foreground">…</p>}
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+    </>
+  );
+};
@@ -1,21 +1,74 @@
-import { useRef, useState, useEffect } from "react";
-import { Play, Pause, Volume2, VolumeX, Maximize, SkipBack, SkipForward, ChevronLeft, ChevronRight, StickyNote, Minimize } from "lucide-react";
+import { useRef, useState, useEffect, useMemo } from "react";
+import { Play, Pause, Volume2, VolumeX, Maximize, SkipBack, SkipForward, ChevronLeft, ChevronRight, StickyNote, Minimize, Repeat, X } from "lucide-react";
+import { LoopHandles, type LoopPoint } from "@/components/LoopHandles";
+import { TimelineMarkers } from "@/components/TimelineMarkers";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { toast } from "sonner";
+import { useFrameRateDetection } from "@/hooks/use-frame-rate-detection";
+import { usePlayerController, usePlayerEvent } from "@/hooks/use-player-controller";
+import { useShortcutSettings } from "@/hooks/use-shortcut-settings";
+import { useShuttle } from "@/hooks/use-shuttle";
+import { STANDARD_FRAME_RATES, formatFrameRate, frameToTime, timeToFrame } from "@/lib/frame-rate";
+import type { NoteDocument } from "@/lib/note-document";
+import type { PlayerLoop } from "@/lib/player-controller";
+import { SHORTCUTS, eventToBinding, findShortcut, formatBinding, withShortcut, type ShortcutAction } from "@/lib/shortcuts";
+import { formatStampText, seekToStamp } from "@/lib/stamps";
+import { adjacentMark, timelineMarks, type TimelineMark } from "@/lib/timeline-marks";
+import { ZERO_TIMECODE, frameToTimecode, isDropFrameRate, parseTimecode, type TimecodeSettings } from "@/lib/timecode";
+import type { VideoMeta } from "@/lib/video-meta";
+
+type TimeDisplay = 'clock' | 'timecode';
+
+const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+const formatRate = (rate: number) => `${rate}×`;
+
+// Notes shortcuts are handled by the editor, where the caret is
+const PLAYER_SHORTCUTS = SHORTCUTS.filter(({ group }) => group !== "Notes");
+const PLAYER_ACTIONS = PLAYER_SHORTCUTS.map(({ action }) => action);
 
 interface VideoPlayerProps {
   videoFile: File | null;
   onVideoLoad: (filename: string) => void;
-  onTimeRequest?: () => number;
-  onFrameRequest?: () => number;
-  onSeekRequest?: (time: number) => void;
+  frameRate: number;
+  timecode: TimecodeSettings;
+  videoMeta: VideoMeta;
+  onVideoMetaChange?: (patch: Partial<VideoMeta>) => void;
   isFullscreenNotes: boolean;
   onFullscreenNotesChange?: (isShowing: boolean) => void;
   notesPanel?: React.ReactNode;
+  // The current notebook's notes, whose stamps are marked on the timeline
+  notesDocument?: NoteDocument | null;
+  // Called with the start and end frames of a range marked with I and O
+  onRangeMarked?: (start: number, end: number) => void;
 }
 
-export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequest, onSeekRequest, isFullscreenNotes, onFullscreenNotesChange, notesPanel }: VideoPlayerProps) => {
+export const VideoPlayer = ({
+  videoFile,
+  onVideoLoad,
+  frameRate,
+  timecode,
+  videoMeta,
+  onVideoMetaChange,
+  isFullscreenNotes,
+  onFullscreenNotesChange,
+  notesPanel,
+  notesDocument,
+  onRangeMarked
+}: VideoPlayerProps) => {
+  const controller = usePlayerController();
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -26,6 +79,24 @@ export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequ
   const [showControls, setShowControls] = useState(true);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [isCustomFullscreen, setIsCustomFullscreen] = useState(false);
+  // Frame marked with I, waiting for O to complete the range
+  const [inPoint, setInPoint] = useState<number | null>(null);
+  const [loop, setLoop] = useState<PlayerLoop | null>(null);
+  // A/B loop points in seconds. They outlive the loop so R can switch it back on; the loop itself
+  // lives on the controller, shared with range stamps looped from the notes
+  const [loopPoints, setLoopPoints] = useState<Record<LoopPoint, number | null>>({ start: null, end: null });
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const { speed: shuttleSpeed, shuttle, stop: stopShuttle } = useShuttle();
+  // While the shuttle pause key (K) is held, reverse and forward (J and L) step single frames instead
+  const isPauseHeldRef = useRef(false);
+  const { keymap, skipSeconds } = useShortcutSettings();
+  const keyName = (action: ShortcutAction) => formatBinding(keymap[action]);
+  const [preservesPitch, setPreservesPitch] = useState(
+    () => localStorage.getItem("alairy-preserve-pitch") !== "false"
+  );
+  const [timeDisplay, setTimeDisplay] = useState<TimeDisplay>(
+    () => (localStorage.getItem("alairy-time-display") as TimeDisplay) || 'clock'
+  );
 
   useEffect(() => {
     if (videoFile) {
@@ -43,57 +114,53 @@ export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequ
       setCurrentTime(0);
       setDuration(0);
     }
+    setInPoint(null);
+    setLoopPoints({ start: null, end: null });
   }, [videoFile, onVideoLoad]);
 
-  // Expose methods to parent via callbacks
+  // Register the mounted <video> so notes and plugins can drive it through the controller
   useEffect(() => {
-    if (onTimeRequest) {
-      (window as any).getCurrentVideoTime = () => currentTime;
-    }
-    if (onFrameRequest) {
-      (window as any).getCurrentVideoFrame = () => Math.floor(currentTime * 30);
-    }
-    if (onSeekRequest) {
-      (window as any).seekToVideoTime = (time: number) => {
-        if (videoRef.current) {
-          videoRef.current.currentTime = time;
-        }
-      };
-    }
-  }, [currentTime, onTimeRequest, onFrameRequest, onSeekRequest]);
+    const video = videoRef.current;
+    if (!video || !videoUrl) return;
+    return controller.attach(video);
+  }, [controller, videoUrl]);
 
   useEffect(() => {
-    const video = videoRef.current;
-    if (!video) return;
+    controller.configure({ frameRate, timecode });
+  }, [controller, frameRate, timecode]);
 
-    const updateTime = () => setCurrentTime(video.currentTime);
-    const updateDuration = () => setDuration(video.duration);
-    
-    video.addEventListener("timeupdate", updateTime);
-    video.addEventListener("loadedmetadata", updateDuration);
-    
-    return () => {
-      video.removeEventListener("timeupdate", updateTime);
-      video.removeEventListener("loadedmetadata", updateDuration);
-    };
-  }, [videoUrl]);
+  useFrameRateDetection(videoRef, videoUrl, (detected) => onVideoMetaChange?.({ detectedFrameRate: detected }));
 
-  const togglePlay = () => {
+  usePlayerEvent(["timeupdate", "seeked"], () => setCurrentTime(controller.getTime()));
+  usePlayerEvent("loadedmetadata", () => setDuration(controller.getDuration()));
+  usePlayerEvent(["play", "pause", "ended"], () => setIsPlaying(controller.isPlaying()));
+  usePlayerEvent("loop", () => {
+    const next = controller.getLoop();
+    setLoop(next);
+    if (next) setLoopPoints({ start: next.start, end: next.end });
+  });
+  usePlayerEvent("ratechange", () => setPlaybackRate(controller.getRate()));
+
+  // Each video plays at the speed it was last reviewed at; the rate is stored with its notebook
+  useEffect(() => {
+    if (videoUrl) controller.setRate(videoMeta.playbackRate ?? 1);
+  }, [controller, videoUrl, videoMeta.playbackRate]);
+
+  useEffect(() => {
     const video = videoRef.current;
-    if (!video) return;
-    
-    if (isPlaying) {
-      video.pause();
-    } else {
-      video.play();
+    if (video) video.preservesPitch = preservesPitch;
+  }, [videoUrl, preservesPitch]);
+
+  const togglePlay = () => {
+    if (shuttleSpeed !== 0) {
+      stopShuttle();
+      return;
     }
-    setIsPlaying(!isPlaying);
+    controller.togglePlay();
   };
 
   const handleSeek = (value: number[]) => {
-    const video = videoRef.current;
-    if (!video) return;
-    video.currentTime = value[0];
+    controller.seek(value[0]);
     setCurrentTime(value[0]);
   };
 
@@ -143,85 +210,303 @@ export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequ
   }, [onFullscreenNotesChange]);
 
   const skip = (seconds: number) => {
-    const video = videoRef.current;
-    if (!video) return;
-    video.currentTime = Math.max(0, Math.min(video.duration, video.currentTime + seconds));
+    controller.seek(controller.getTime() + seconds);
+  };
+
+  // Steps from the presented frame to the neighbouring frame boundary, stopping any shuttle and
+  // pausing playback first
+  const stepFrame = (delta: number) => {
+    const duration = controller.getDuration();
+    if (!duration) return;
+
+    stopShuttle();
+    controller.pause();
+    const lastFrame = Math.max(0, timeToFrame(duration, frameRate) - 1);
+    const target = Math.max(0, Math.min(lastFrame, controller.getFrame() + delta));
+    controller.seekToFrame(target);
+    setCurrentTime(controller.getTime());
+    return target;
   };
 
   const previousFrame = () => {
-    const video = videoRef.current;
-    if (!video) return;
-    
-    // Assuming 30fps, one frame is approximately 1/30 second
-    video.currentTime = Math.max(0, video.currentTime - (1/30));
-    toast.success("Previous frame");
+    const frame = stepFrame(-1);
+    if (frame !== undefined) toast.success(`Frame ${frame}`);
   };
 
   const nextFrame = () => {
-    const video = videoRef.current;
-    if (!video) return;
+    const frame = stepFrame(1);
+    if (frame !== undefined) toast.success(`Frame ${frame}`);
+  };
+
+  const marks = useMemo(
+    () => (notesDocument ? timelineMarks(notesDocument, frameRate) : []),
+    [notesDocument, frameRate]
+  );
+
+  const jumpToMark = (mark: TimelineMark) => {
+    seekToStamp(controller, mark.stamp);
+    setCurrentTime(controller.getTime());
+  };
+
+  // Alt+←/→ walk the stamps in time order
+  const jumpToAdjacentMark = (direction: -1 | 1) => {
+    if (!controller.isReady()) return;
+    const mark = adjacentMark(marks, controller.getFrame(), direction);
+    if (!mark) {
+      toast.error(direction < 0 ? "No earlier stamp" : "No later stamp", { duration: 300 });
+      return;
+    }
+    jumpToMark(mark);
+    toast.success(`Jumped to ${formatStampText(mark.stamp, timecode)}`, { duration: 300 });
+  };
+
+  const changeRate = (rate: number) => {
+    controller.setRate(rate);
+    onVideoMetaChange?.({ playbackRate: rate });
+  };
+
+  // < and > step through the preset speeds
+  const stepRate = (direction: -1 | 1) => {
+    const current = controller.getRate();
+    const rate = direction < 0
+      ? [...PLAYBACK_RATES].reverse().find((preset) => preset < current)
+      : PLAYBACK_RATES.find((preset) => preset > current);
+    if (rate === undefined) return;
+    changeRate(rate);
+    toast.success(`Speed ${formatRate(rate)}`, { duration: 300 });
+  };
+
+  const togglePreservesPitch = (checked: boolean) => {
+    setPreservesPitch(checked);
+    localStorage.setItem("alairy-preserve-pitch", String(checked));
+  };
+
+  const startShuttle = (direction: -1 | 1) => {
+    const speed = shuttle(direction);
+    if (speed) toast.success(`${speed < 0 ? "Reverse" : "Forward"} ${Math.abs(speed)}×`, { duration: 300 });
+  };
+
+  const markIn = () => {
+    if (!controller.isReady()) return;
+    const frame = controller.getFrame();
+    setInPoint(frame);
+    toast.success(`In: ${formatTime(frameToTime(frame, frameRate))}. Press ${keyName('markOut')} at the end of the range.`, { duration: 2000 });
+  };
+
+  // Completes the range started with I; marking out before in just swaps the two
+  const markOut = () => {
+    if (!controller.isReady()) return;
+    if (inPoint === null) {
+      toast.error(`Press ${keyName('markIn')} to mark where the range starts`, { duration: 2000 });
+      return;
+    }
+    const frame = controller.getFrame();
+    if (frame === inPoint) {
+      toast.error("A range needs to span at least one frame", { duration: 2000 });
+      return;
+    }
+    setInPoint(null);
+    onRangeMarked?.(Math.min(inPoint, frame), Math.max(inPoint, frame));
+  };
+
+  const loopText = (start: number, end: number) => `${formatTime(start)}–${formatTime(end)}`;
+
+  // A and B mark the loop points at the playhead; once both are set the section between them loops
+  const markLoopPoint = (point: LoopPoint) => {
+    if (!controller.isReady()) return;
+    const time = controller.getTime();
+    // A point on the wrong side of the other one starts a new section
+    const next = point === 'start'
+      ? { start: time, end: loopPoints.end !== null && loopPoints.end > time ? loopPoints.end : null }
+      : { start: loopPoints.start !== null && loopPoints.start < time ? loopPoints.start : null, end: time };
+    setLoopPoints(next);
+
+    if (next.start !== null && next.end !== null) {
+      controller.setLoop({ start: next.start, end: next.end });
+      toast.success(`Looping ${loopText(next.start, next.end)}`, { duration: 300 });
+    } else {
+      controller.setLoop(null);
+      toast.success(
+        `${point === 'start' ? 'A' : 'B'}: ${formatTime(time)}. Press ${keyName(point === 'start' ? 'loopEnd' : 'loopStart')} to loop.`,
+        { duration: 2000 }
+      );
+    }
+  };
+
+  const toggleLoop = () => {
+    if (loop) {
+      controller.setLoop(null);
+      toast.success("Loop off", { duration: 300 });
+      return;
+    }
+    const { start, end } = loopPoints;
+    if (start === null || end === null) {
+      toast.error(`Press ${keyName('loopStart')} and ${keyName('loopEnd')} to mark the section to loop`, { duration: 2000 });
+      return;
+    }
+    controller.setLoop({ start, end });
+    const time = controller.getTime();
+    if (time < start || time > end) controller.seek(start);
+    toast.success(`Looping ${loopText(start, end)}`, { duration: 300 });
+  };
+
+  const clearLoopPoints = () => {
+    controller.setLoop(null);
+    setLoopPoints({ start: null, end: null });
+  };
+
+  // Dragged points keep at least a frame between them and move a running loop along with them
+  const dragLoopPoint = (point: LoopPoint, time: number) => {
+    const minLength = 1 / frameRate;
+    const clamped = point === 'start'
+      ? Math.min(time, (loopPoints.end ?? duration) - minLength)
+      : Math.max(time, (loopPoints.start ?? 0) + minLength);
+    const next = { ...loopPoints, [point]: Math.max(0, Math.min(duration, clamped)) };
+    setLoopPoints(next);
+    if (loop && next.start !== null && next.end !== null) {
+      controller.setLoop({ start: next.start, end: next.end });
+    }
+  };
+
+  // Rebuilt each render and reached through a ref, so every shortcut sees the current state
+  // (time display, marks, loop points) without re-adding the listeners
+  const handleKeyPress = (e: KeyboardEvent) => {
+    if (!videoRef.current) return;
     
-    // Assuming 30fps, one frame is approximately 1/30 second
-    video.currentTime = Math.min(video.duration, video.currentTime + (1/30));
-    toast.success("Next frame");
+    // Disable shortcuts when typing in textarea, input, or contentEditable, or while a dialog has focus
+    const activeElement = document.activeElement;
+    if (
+      activeElement?.tagName === 'TEXTAREA' || 
+      activeElement?.tagName === 'INPUT' ||
+      (activeElement as HTMLElement)?.isContentEditable ||
+      activeElement?.closest('[role="dialog"]')
+    ) {
+      return;
+    }
+
+    // Bindings match modifiers exactly, so app-wide combinations such as Ctrl+K pass through
+    const action = findShortcut(keymap, e, PLAYER_ACTIONS);
+    if (!action) return;
+    e.preventDefault();
+
+    const skipTo = PLAYER_SHORTCUTS.find((shortcut) => shortcut.action === action)?.skip;
+    if (skipTo) {
+      skip(skipTo.direction * skipSeconds[skipTo.tier]);
+      return;
+    }
+    
+    switch(action) {
+      case 'playPause':
+        togglePlay();
+        break;
+      case 'previousFrame':
+        previousFrame();
+        break;
+      case 'nextFrame':
+        nextFrame();
+        break;
+      case 'previousStamp':
+        jumpToAdjacentMark(-1);
+        break;
+      case 'nextStamp':
+        jumpToAdjacentMark(1);
+        break;
+      case 'toggleFullscreen':
+        toggleFullscreen();
+        break;
+      case 'toggleMute':
+        toggleMute();
+        break;
+      case 'markIn':
+        markIn();
+        break;
+      case 'markOut':
+        markOut();
+        break;
+      case 'loopStart':
+        markLoopPoint('start');
+        break;
+      case 'loopEnd':
+        markLoopPoint('end');
+        break;
+      case 'toggleLoop':
+        toggleLoop();
+        break;
+      case 'shuttleReverse':
+      case 'shuttleForward': {
+        const direction = action === 'shuttleReverse' ? -1 : 1;
+        if (isPauseHeldRef.current) {
+          if (direction < 0) previousFrame();
+          else nextFrame();
+        } else if (!e.repeat) {
+          startShuttle(direction);
+        }
+        break;
+      }
+      case 'shuttlePause':
+        isPauseHeldRef.current = true;
+        stopShuttle();
+        controller.pause();
+        break;
+      case 'slower':
+        stepRate(-1);
+        break;
+      case 'faster':
+        stepRate(1);
+        break;
+    }
   };
+  const handleKeyPressRef = useRef(handleKeyPress);
+  handleKeyPressRef.current = handleKeyPress;
 
   useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (!videoRef.current) return;
-      
-      // Disable shortcuts when typing in textarea, input, or contentEditable
-      const activeElement = document.activeElement;
-      if (
-        activeElement?.tagName === 'TEXTAREA' || 
-        activeElement?.tagName === 'INPUT' ||
-        (activeElement as HTMLElement)?.isContentEditable
-      ) {
-        return;
-      }
-      
-      switch(e.key) {
-        case ' ':
-          e.preventDefault();
-          togglePlay();
-          break;
-        case 'ArrowLeft':
-          e.preventDefault();
-          if (e.shiftKey) {
-            previousFrame();
-          } else {
-            skip(-10);
-          }
-          break;
-        case 'ArrowRight':
-          e.preventDefault();
-          if (e.shiftKey) {
-            nextFrame();
-          } else {
-            skip(10);
-          }
-          break;
-        case 'f':
-          e.preventDefault();
-          toggleFullscreen();
-          break;
-        case 'm':
-          e.preventDefault();
-          toggleMute();
-          break;
-      }
+    const handleKeyDown = (e: KeyboardEvent) => handleKeyPressRef.current(e);
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (eventToBinding(e) === keymap.shuttlePause) isPauseHeldRef.current = false;
+    };
+    // The key-up is missed if focus leaves the window while the key is down
+    const handleBlur = () => {
+      isPauseHeldRef.current = false;
     };
 
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [isPlaying]);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [keymap]);
 
   const formatTime = (seconds: number) => {
+    if (timeDisplay === 'timecode') {
+      return frameToTimecode(timeToFrame(seconds || 0, frameRate), timecode);
+    }
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const toggleTimeDisplay = () => {
+    const next = timeDisplay === 'clock' ? 'timecode' : 'clock';
+    setTimeDisplay(next);
+    localStorage.setItem("alairy-time-display", next);
+  };
+
+  const editStartTimecode = () => {
+    const input = window.prompt(
+      "Start timecode of the first frame (HH:MM:SS:FF)",
+      videoMeta.startTimecode ?? ZERO_TIMECODE
+    );
+    if (input === null) return;
+    if (parseTimecode(input, frameRate, timecode.dropFrame) === null) {
+      toast.error(`Invalid timecode: ${input}`);
+      return;
+    }
+    onVideoMetaChange?.({ startTimecode: input.trim() });
+  };
+
   if (!videoUrl) {
     return (
       <div className="flex items-center justify-center h-full bg-player-bg rounded-lg min-h-0">
@@ -248,16 +533,54 @@ export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequ
       <div className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/60 to-transparent p-6 transition-opacity duration-300 ${showControls ? 'opacity-100' : 'opacity-0'}`}>
         {/* Timeline */}
         <div className="mb-4">
-          <Slider
-            value={[currentTime]}
-            max={duration || 100}
-            step={0.1}
-            onValueChange={handleSeek}
-            className="cursor-pointer"
-          />
-          <div className="flex justify-between text-xs text-foreground/80 mt-1">
-            <span>{formatTime(currentTime)}</span>
-            <span>{formatTime(duration)}</span>
+          <div className="relative">
+            <Slider
+              value={[currentTime]}
+              max={duration || 100}
+              step={0.1}
+              onValueChange={handleSeek}
+              className="cursor-pointer"
+            />
+            <TimelineMarkers marks={marks} duration={duration} timecode={timecode} onSelect={jumpToMark} />
+            <LoopHandles
+              start={loopPoints.start}
+              end={loopPoints.end}
+              duration={duration}
+              isActive={loop !== null}
+              onDrag={dragLoopPoint}
+            />
+          </div>
+          <div className="flex justify-between text-xs text-foreground/80 mt-1 tabular-nums">
+            <button onClick={toggleTimeDisplay} title="Toggle timecode display" className="hover:text-foreground">
+              {formatTime(currentTime)}
+            </button>
+            <div className="flex items-center gap-2">
+              {shuttleSpeed !== 0 && (
+                <span className="rounded bg-primary/20 px-1.5">
+                  {shuttleSpeed < 0 ? "◀◀" : "▶▶"} {Math.abs(shuttleSpeed)}×
+                </span>
+              )}
+              {inPoint !== null && (
+                <span className="flex items-center gap-1 rounded bg-primary/20 px-1.5">
+                  In {formatTime(frameToTime(inPoint, frameRate))} ({keyName('markOut')} to finish)
+                  <button onClick={() => setInPoint(null)} title="Clear in point" className="hover:text-foreground">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              )}
+              {(loopPoints.start !== null || loopPoints.end !== null) && (
+                <span className={`flex items-center gap-1 rounded px-1.5 ${loop ? "bg-primary/20" : "bg-muted/30 text-foreground/60"}`}>
+                  <Repeat className="w-3 h-3" />
+                  {loopPoints.start === null ? "…" : formatTime(loopPoints.start)}–{loopPoints.end === null ? "…" : formatTime(loopPoints.end)}
+                  <button onClick={clearLoopPoints} title="Clear loop points" className="hover:text-foreground">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              )}
+            </div>
+            <button onClick={toggleTimeDisplay} title="Toggle timecode display" className="hover:text-foreground">
+              {formatTime(duration)}
+            </button>
           </div>
         </div>
         
@@ -270,7 +593,7 @@ export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequ
               size="icon"
               onClick={previousFrame}
               className="hover:bg-primary/20"
-              title="Previous Frame (Shift + ←)"
+              title={withShortcut("Previous Frame", keymap, 'previousFrame')}
             >
               <ChevronLeft className="w-5 h-5" />
             </Button>
@@ -279,9 +602,9 @@ export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequ
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => skip(-10)}
+              onClick={() => skip(-skipSeconds.long)}
               className="hover:bg-primary/20"
-              title="Skip Back 10s (←)"
+              title={withShortcut(`Skip Back ${skipSeconds.long}s`, keymap, 'skipBackLong')}
             >
               <SkipBack className="w-5 h-5" />
             </Button>
@@ -292,7 +615,7 @@ export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequ
               size="icon"
               onClick={togglePlay}
               className="hover:bg-primary/20 w-12 h-12"
-              title="Play/Pause (Space)"
+              title={withShortcut("Play/Pause", keymap, 'playPause')}
             >
               {isPlaying ? <Pause className="w-6 h-6" /> : <Play className="w-6 h-6" />}
             </Button>
@@ -301,9 +624,9 @@ export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequ
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => skip(10)}
+              onClick={() => skip(skipSeconds.long)}
               className="hover:bg-primary/20"
-              title="Skip Forward 10s (→)"
+              title={withShortcut(`Skip Forward ${skipSeconds.long}s`, keymap, 'skipForwardLong')}
             >
               <SkipForward className="w-5 h-5" />
             </Button>
@@ -314,13 +637,105 @@ export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequ
               size="icon"
               onClick={nextFrame}
               className="hover:bg-primary/20"
-              title="Next Frame (Shift + →)"
+              title={withShortcut("Next Frame", keymap, 'nextFrame')}
             >
               <ChevronRight className="w-5 h-5" />
             </Button>
           </div>
           
           <div className="flex items-center gap-4">
+            {/* A–B loop */}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={toggleLoop}
+              className={loop ? "bg-primary/30 text-primary hover:bg-primary/40" : "hover:bg-primary/20"}
+              title={`${withShortcut("A–B loop", keymap, 'toggleLoop')}; mark points with ${keyName('loopStart')} and ${keyName('loopEnd')}`}
+              aria-pressed={loop !== null}
+            >
+              <Repeat className="w-5 h-5" />
+            </Button>
+
+            {/* Playback speed */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="hover:bg-primary/20 text-xs tabular-nums"
+                  title={`Playback speed (${keyName('slower')} / ${keyName('faster')})`}
+                >
+                  {formatRate(playbackRate)}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" container={containerRef.current}>
+                <DropdownMenuLabel>Playback speed</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuRadioGroup value={String(playbackRate)} onValueChange={(value) => changeRate(Number(value))}>
+                  {PLAYBACK_RATES.map((rate) => (
+                    <DropdownMenuRadioItem key={rate} value={String(rate)}>
+                      {formatRate(rate)}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem checked={preservesPitch} onCheckedChange={togglePreservesPitch}>
+                  Preserve pitch
+                </DropdownMenuCheckboxItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            {/* Frame rate */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="hover:bg-primary/20 text-xs tabular-nums"
+                  title="Frame rate"
+                >
+                  {formatFrameRate(frameRate)} fps
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" container={containerRef.current}>
+                <DropdownMenuLabel>Frame rate</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuRadioGroup
+                  value={videoMeta.frameRateOverride === undefined ? "auto" : String(videoMeta.frameRateOverride)}
+                  onValueChange={(value) =>
+                    onVideoMetaChange?.({ frameRateOverride: value === "auto" ? undefined : Number(value) })
+                  }
+                >
+                  <DropdownMenuRadioItem value="auto">
+                    Auto ({videoMeta.detectedFrameRate ? `detected ${formatFrameRate(videoMeta.detectedFrameRate)}` : "play to detect"})
+                  </DropdownMenuRadioItem>
+                  {STANDARD_FRAME_RATES.map((rate) => (
+                    <DropdownMenuRadioItem key={rate} value={String(rate)}>
+                      {formatFrameRate(rate)} fps
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Timecode</DropdownMenuLabel>
+                <DropdownMenuCheckboxItem
+                  checked={timeDisplay === 'timecode'}
+                  onCheckedChange={toggleTimeDisplay}
+                >
+                  Show timecode
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuCheckboxItem
+                  checked={timecode.dropFrame}
+                  disabled={!isDropFrameRate(frameRate)}
+                  onCheckedChange={(checked) => onVideoMetaChange?.({ dropFrame: checked })}
+                >
+                  Drop-frame
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuItem onSelect={editStartTimecode}>
+                  Start timecode: {videoMeta.startTimecode ?? ZERO_TIMECODE}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
             {/* Volume */}
             <div className="flex items-center gap-2">
               <Button
@@ -328,7 +743,7 @@ export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequ
                 size="icon"
                 onClick={toggleMute}
                 className="hover:bg-primary/20"
-                title="Mute (M)"
+                title={withShortcut("Mute", keymap, 'toggleMute')}
               >
                 {isMuted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
               </Button>
@@ -360,7 +775,7 @@ export const VideoPlayer = ({ videoFile, onVideoLoad, onTimeRequest, onFrameRequ
               size="icon"
               onClick={toggleFullscreen}
               className="hover:bg-primary/20"
-              title="Fullscreen (F)"
+              title={withShortcut("Fullscreen", keymap, 'toggleFullscreen')}
             >
               <Maximize className="w-5 h-5" />
             </Button>
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, type RefObject } from "react";
+import { usePlayerController, usePlayerEvent } from "@/hooks/use-player-controller";
+import { STAMP_SELECTOR, readStampElement, stampFrame } from "@/lib/stamps";
+
+// Auto-scroll holds off this long after the last keystroke or manual scroll in the editor
+const TYPING_PAUSE_MS = 3000;
+const SCROLL_PAUSE_MS = 5000;
+// Scroll events until then come from our own smooth scrolling, not the user
+const PROGRAMMATIC_SCROLL_MS = 1000;
+
+const ACTIVE_STAMP_CLASS = "follow-active-stamp";
+const ACTIVE_LINE_CLASS = "follow-active-line";
+
+/**
+ * Follow mode for the notes editor: highlights the stamp whose frame most recently played (and
+ * the line it's on) and keeps it in view. Only classes change, so the notes themselves and the
+ * undo history are untouched. Call `notifyTyping` on input and `handleScroll` on editor scroll so
+ * auto-scroll doesn't fight the user.
+ */
+export function useFollowPlayback(editorRef: RefObject<HTMLDivElement>, enabled: boolean) {
+  const player = usePlayerController();
+  const activeRef = useRef<{ stamp: HTMLElement; line: HTMLElement | null } | null>(null);
+  const lastTypedRef = useRef(0);
+  const lastManualScrollRef = useRef(0);
+  const programmaticScrollUntilRef = useRef(0);
+
+  // The classes sit on editable content, so pressing Enter on the highlighted line copies them
+  // into the new line; every marked element except the current ones is cleared, not just those tracked
+  const removeStrayHighlights = useCallback(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    for (const element of editor.querySelectorAll(`.${ACTIVE_STAMP_CLASS}, .${ACTIVE_LINE_CLASS}`)) {
+      if (element !== activeRef.current?.stamp && element !== activeRef.current?.line) {
+        element.classList.remove(ACTIVE_STAMP_CLASS, ACTIVE_LINE_CLASS);
+      }
+    }
+  }, [editorRef]);
+
+  const clearHighlight = useCallback(() => {
+    activeRef.current = null;
+    removeStrayHighlights();
+  }, [removeStrayHighlights]);
+
+  const scrollIntoView = (editor: HTMLElement, target: HTMLElement) => {
+    const now = Date.now();
+    if (now - lastTypedRef.current < TYPING_PAUSE_MS || now - lastManualScrollRef.current < SCROLL_PAUSE_MS) return;
+
+    const view = editor.getBoundingClientRect();
+    const rect = target.getBoundingClientRect();
+    if (rect.top >= view.top && rect.bottom <= view.bottom) return;
+
+    // Lands the line a third of the way down, leaving the notes before it in view
+    programmaticScrollUntilRef.current = now + PROGRAMMATIC_SCROLL_MS;
+    editor.scrollTo({ top: editor.scrollTop + rect.top - view.top - view.height / 3, behavior: "smooth" });
+  };
+
+  const update = () => {
+    const editor = editorRef.current;
+    if (!enabled || !editor || !player.isReady()) return;
+
+    const frame = player.getFrame();
+    const frameRate = player.getFrameRate();
+    let active: HTMLElement | null = null;
+    let activeFrame = -Infinity;
+    // Later stamps on the same frame win, matching reading order
+    for (const chip of editor.querySelectorAll<HTMLElement>(STAMP_SELECTOR)) {
+      const stamp = readStampElement(chip);
+      if (!stamp) continue;
+      const chipFrame = stampFrame(stamp, frameRate);
+      if (chipFrame <= frame && chipFrame >= activeFrame) {
+        active = chip;
+        activeFrame = chipFrame;
+      }
+    }
+
+    if (active === activeRef.current?.stamp) {
+      removeStrayHighlights();
+      return;
+    }
+    clearHighlight();
+    if (!active) return;
+
+    // The line is the editor's child holding the chip; chips sitting directly in the editor have none
+    let line: HTMLElement = active;
+    while (line.parentElement && line.parentElement !== editor) line = line.parentElement;
+    const activeLine = line !== active && line.parentElement === editor ? line : null;
+
+    active.classList.add(ACTIVE_STAMP_CLASS);
+    activeLine?.classList.add(ACTIVE_LINE_CLASS);
+    activeRef.current = { stamp: active, line: activeLine };
+    scrollIntoView(editor, activeLine ?? active);
+  };
+
+  usePlayerEvent(["timeupdate", "seeked"], update);
+
+  const updateRef = useRef(update);
+  updateRef.current = update;
+  useEffect(() => {
+    if (enabled) {
+      updateRef.current();
+    } else {
+      clearHighlight();
+    }
+  }, [enabled, clearHighlight]);
+
+  const notifyTyping = useCallback(() => {
+    lastTypedRef.current = Date.now();
+    removeStrayHighlights();
+  }, [removeStrayHighlights]);
+
+  const handleScroll = useCallback(() => {
+    if (Date.now() > programmaticScrollUntilRef.current) {
+      lastManualScrollRef.current = Date.now();
+    }
+  }, []);
+
+  return { notifyTyping, handleScroll };
+}
@@ -0,0 +1,64 @@
+import { useEffect, useRef, type RefObject } from "react";
+import { snapFrameRate } from "@/lib/frame-rate";
+
+const SAMPLE_COUNT = 30;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Measures the frame rate of the loaded video by sampling `mediaTime` between consecutively
+ * presented frames during playback. Samples are discarded across pauses and seeks, and while
+ * playing faster than 1×, where the display skips frames and the gaps would read as a lower rate.
+ */
+export function useFrameRateDetection(
+  videoRef: RefObject<HTMLVideoElement>,
+  videoUrl: string | null,
+  onDetected: (frameRate: number) => void
+) {
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !videoUrl || !("requestVideoFrameCallback" in HTMLVideoElement.prototype)) return;
+
+    const deltas: number[] = [];
+    let previous: VideoFrameCallbackMetadata | null = null;
+    let handle = 0;
+
+    const onFrame = (_now: DOMHighResTimeStamp, metadata: VideoFrameCallbackMetadata) => {
+      if (video.paused || video.seeking || video.playbackRate > 1) {
+        previous = null;
+      } else {
+        if (previous && metadata.presentedFrames - previous.presentedFrames === 1) {
+          const delta = metadata.mediaTime - previous.mediaTime;
+          if (delta > 0) deltas.push(delta);
+        }
+        previous = metadata;
+      }
+
+      if (deltas.length >= SAMPLE_COUNT) {
+        onDetectedRef.current(snapFrameRate(1 / median(deltas)));
+        return;
+      }
+      handle = video.requestVideoFrameCallback(onFrame);
+    };
+
+    const resetSampling = () => {
+      previous = null;
+    };
+
+    handle = video.requestVideoFrameCallback(onFrame);
+    video.addEventListener("seeking", resetSampling);
+    video.addEventListener("pause", resetSampling);
+
+    return () => {
+      video.cancelVideoFrameCallback(handle);
+      video.removeEventListener("seeking", resetSampling);
+      video.removeEventListener("pause", resetSampling);
+    };
+  }, [videoRef, videoUrl]);
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react";
+
+/**
+ * The element currently in fullscreen, or null. Menus and dialogs portal into it while set,
+ * since content portalled to the body isn't visible over a fullscreen element.
+ */
+export function useFullscreenElement() {
+  const [element, setElement] = useState(() => document.fullscreenElement as HTMLElement | null);
+
+  useEffect(() => {
+    const handleChange = () => setElement(document.fullscreenElement as HTMLElement | null);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  return element;
+}
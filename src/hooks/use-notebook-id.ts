@@ -0,0 +1,39 @@
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { usePlayerController, usePlayerEvent } from "@/hooks/use-player-controller";
+import { fingerprintVideo } from "@/lib/fingerprint";
+import { pullSidecar, sidecarFilename } from "@/lib/folder-sync";
+import { resolveNotebookId } from "@/lib/notes-db";
+
+/**
+ * Fingerprints the loaded video once its duration is known and resolves the notebook that belongs
+ * to it, picking up a newer copy from the linked notes folder on the way.
+ */
+export function useNotebookId(videoFile: File | null) {
+  const player = usePlayerController();
+  // Kept with the file it was resolved for, so a newly loaded video never sees the previous one's id
+  const [resolved, setResolved] = useState<{ file: File; id: string } | null>(null);
+  const videoFileRef = useRef(videoFile);
+  videoFileRef.current = videoFile;
+
+  usePlayerEvent("loadedmetadata", () => {
+    const file = videoFileRef.current;
+    if (!file) return;
+
+    fingerprintVideo(file, player.getDuration())
+      .then((fingerprint) => resolveNotebookId(fingerprint, file.name))
+      .then(async (id) => {
+        try {
+          if (await pullSidecar(id, file.name)) {
+            toast.success(`Loaded newer notes from ${sidecarFilename(file.name)}`, { duration: 2000 });
+          }
+        } catch {
+          toast.error(`Could not read ${sidecarFilename(file.name)} from the notes folder`);
+        }
+        if (videoFileRef.current === file) setResolved({ file, id });
+      })
+      .catch(() => toast.error("Could not open notes storage"));
+  });
+
+  return resolved && resolved.file === videoFile ? resolved.id : null;
+}
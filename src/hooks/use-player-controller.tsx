@@ -0,0 +1,34 @@
+import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from "react";
+import { createPlayerController, type PlayerController, type PlayerEvent } from "@/lib/player-controller";
+
+const PlayerControllerContext = createContext<PlayerController | null>(null);
+
+/** Gives the tree below it its own controller; each VideoPlayer needs one. */
+export const PlayerControllerProvider = ({ children }: { children: ReactNode }) => {
+  const [controller] = useState(createPlayerController);
+  return <PlayerControllerContext.Provider value={controller}>{children}</PlayerControllerContext.Provider>;
+};
+
+export function usePlayerController() {
+  const controller = useContext(PlayerControllerContext);
+  if (!controller) {
+    throw new Error("usePlayerController must be used within a PlayerControllerProvider.");
+  }
+
+  return controller;
+}
+
+/** Subscribes to player events for the lifetime of the component; the latest listener is always called. */
+export function usePlayerEvent(events: PlayerEvent | PlayerEvent[], listener: () => void) {
+  const controller = usePlayerController();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+  const eventKey = ([] as PlayerEvent[]).concat(events).join(",");
+
+  useEffect(() => {
+    const unsubscribers = eventKey
+      .split(",")
+      .map((event) => controller.subscribe(event as PlayerEvent, () => listenerRef.current()));
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [controller, eventKey]);
+}
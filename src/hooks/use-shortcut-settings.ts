@@ -0,0 +1,34 @@
+import { useSyncExternalStore } from "react";
+import { loadShortcutSettings, saveShortcutSettings, type ShortcutSettings } from "@/lib/shortcuts";
+
+// One copy for the whole app, so the player, the notes and the shortcut help change together
+let settings: ShortcutSettings | null = null;
+const listeners = new Set<() => void>();
+
+const getSettings = () => (settings ??= loadShortcutSettings());
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const updateShortcutSettings = (next: ShortcutSettings) => {
+  settings = next;
+  saveShortcutSettings(next);
+  notify();
+};
+
+/** Re-reads the saved settings, e.g. after a backup restore wrote them behind the app's back. */
+export const reloadShortcutSettings = () => {
+  settings = loadShortcutSettings();
+  notify();
+};
+
+/** The live keymap and skip lengths; `updateShortcutSettings` saves changes and re-renders every user. */
+export function useShortcutSettings() {
+  return useSyncExternalStore(subscribe, getSettings);
+}
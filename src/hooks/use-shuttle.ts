@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { usePlayerController, usePlayerEvent } from "@/hooks/use-player-controller";
+
+const SHUTTLE_SPEEDS = [1, 2, 4, 8];
+
+/**
+ * NLE-style shuttle: repeated forward/reverse presses step through 1×, 2×, 4× and 8×. `<video>`
+ * can't play backwards, so reverse pauses the element and steps back by however many frames the
+ * speed covers since the previous step, waiting for each seek to land before the next.
+ * `speed` is negative in reverse and 0 when the shuttle isn't running.
+ */
+export function useShuttle() {
+  const player = usePlayerController();
+  const [speed, setSpeed] = useState(0);
+  const speedRef = useRef(0);
+  // Playback rate before forward shuttling took over, restored when it stops
+  const baseRateRef = useRef<number | null>(null);
+
+  const applySpeed = useCallback((next: number) => {
+    speedRef.current = next;
+    setSpeed(next);
+  }, []);
+
+  const restoreRate = useCallback(() => {
+    if (baseRateRef.current !== null) {
+      player.setRate(baseRateRef.current);
+      baseRateRef.current = null;
+    }
+  }, [player]);
+
+  const stop = useCallback(() => {
+    if (speedRef.current === 0) return;
+    applySpeed(0);
+    player.pause();
+    restoreRate();
+  }, [player, applySpeed, restoreRate]);
+
+  /** Starts shuttling in a direction, or speeds up if already going that way. Returns the new speed. */
+  const shuttle = useCallback((direction: -1 | 1) => {
+    if (!player.isReady()) return 0;
+    const current = speedRef.current;
+    const magnitude = Math.sign(current) === direction
+      ? SHUTTLE_SPEEDS.find((preset) => preset > Math.abs(current)) ?? Math.abs(current)
+      : SHUTTLE_SPEEDS[0];
+    const next = magnitude * direction;
+
+    if (direction > 0) {
+      if (baseRateRef.current === null) baseRateRef.current = player.getRate();
+      applySpeed(next);
+      player.setRate(magnitude);
+      player.play();
+    } else {
+      applySpeed(next);
+      player.pause();
+      restoreRate();
+    }
+    return next;
+  }, [player, applySpeed, restoreRate]);
+
+  // Reverse playback by frame stepping
+  useEffect(() => {
+    if (speed >= 0) return;
+
+    let handle = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const video = player.getVideoElement();
+      if (!video) return;
+      if (!video.seeking) {
+        const frames = Math.max(1, Math.round(((now - last) / 1000) * player.getFrameRate() * -speed));
+        const target = player.getFrame() - frames;
+        last = now;
+        if (target < 0) {
+          player.seekToFrame(0);
+          applySpeed(0);
+          return;
+        }
+        player.seekToFrame(target);
+      }
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [speed, player, applySpeed]);
+
+  // Playback started or stopped by anything else ends the shuttle
+  usePlayerEvent("play", () => {
+    if (speedRef.current < 0) applySpeed(0);
+  });
+  usePlayerEvent(["pause", "ended"], () => {
+    if (speedRef.current > 0) {
+      applySpeed(0);
+      restoreRate();
+    }
+  });
+  usePlayerEvent("detach", () => {
+    applySpeed(0);
+    baseRateRef.current = null;
+  });
+
+  return { speed, shuttle, stop };
+}
@@ -0,0 +1,26 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+// Read straight from localStorage on every render, so a restored backup shows up too
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * An on/off preference kept in localStorage under `key`. Every component using the same key sees
+ * the change at once, e.g. the docked and the fullscreen notes panel.
+ */
+export function useStoredToggle(key: string) {
+  const value = useSyncExternalStore(subscribe, () => localStorage.getItem(key) === "true");
+
+  const setValue = useCallback((next: boolean) => {
+    localStorage.setItem(key, String(next));
+    listeners.forEach((listener) => listener());
+  }, [key]);
+
+  return [value, setValue] as const;
+}
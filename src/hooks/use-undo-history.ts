@@ -0,0 +1,73 @@
+import { useCallback, useRef, useState } from "react";
+
+const HISTORY_LIMIT = 200;
+// Consecutive coalescing commits within this window (e.g. a burst of typing) form one undo step
+const COALESCE_WINDOW_MS = 1000;
+
+interface CommitOptions {
+  coalesce?: boolean;
+}
+
+/**
+ * Snapshot-based undo/redo stack. Callers commit the state after every change; `undo` and
+ * `redo` return the snapshot to restore, or null when there is nothing to step to.
+ */
+export function useUndoHistory<T>() {
+  const pastRef = useRef<T[]>([]);
+  const presentRef = useRef<T | null>(null);
+  const futureRef = useRef<T[]>([]);
+  const lastCommitRef = useRef({ time: 0, coalesce: false });
+  const [availability, setAvailability] = useState({ canUndo: false, canRedo: false });
+
+  const syncAvailability = useCallback(() => {
+    setAvailability({ canUndo: pastRef.current.length > 0, canRedo: futureRef.current.length > 0 });
+  }, []);
+
+  const reset = useCallback((state: T | null) => {
+    pastRef.current = [];
+    futureRef.current = [];
+    presentRef.current = state;
+    lastCommitRef.current = { time: 0, coalesce: false };
+    syncAvailability();
+  }, [syncAvailability]);
+
+  const commit = useCallback((state: T, { coalesce = false }: CommitOptions = {}) => {
+    const now = Date.now();
+    const last = lastCommitRef.current;
+    const extendsLastStep = coalesce && last.coalesce && now - last.time < COALESCE_WINDOW_MS;
+
+    if (!extendsLastStep && presentRef.current !== null) {
+      pastRef.current = [...pastRef.current, presentRef.current].slice(-HISTORY_LIMIT);
+    }
+    presentRef.current = state;
+    futureRef.current = [];
+    lastCommitRef.current = { time: now, coalesce };
+    syncAvailability();
+  }, [syncAvailability]);
+
+  const undo = useCallback(() => {
+    const previous = pastRef.current[pastRef.current.length - 1];
+    if (previous === undefined || presentRef.current === null) return null;
+
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, presentRef.current];
+    presentRef.current = previous;
+    lastCommitRef.current = { time: 0, coalesce: false };
+    syncAvailability();
+    return previous;
+  }, [syncAvailability]);
+
+  const redo = useCallback(() => {
+    const next = futureRef.current[futureRef.current.length - 1];
+    if (next === undefined || presentRef.current === null) return null;
+
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, presentRef.current];
+    presentRef.current = next;
+    lastCommitRef.current = { time: 0, coalesce: false };
+    syncAvailability();
+    return next;
+  }, [syncAvailability]);
+
+  return { ...availability, reset, commit, undo, redo };
+}
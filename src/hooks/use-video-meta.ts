@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { getNotebook, updateExistingNotebook, updateNotebook, type Notebook } from "@/lib/notes-db";
+import { resolveFrameRate, resolveTimecodeSettings, type VideoMeta } from "@/lib/video-meta";
+
+export function useVideoMeta(notebookId: string | null, videoFilename: string | null) {
+  const [meta, setMeta] = useState<VideoMeta>({});
+  // Bumped by `reload` when the notebook was replaced behind our back (e.g. from a sidecar file)
+  const [revision, setRevision] = useState(0);
+  // A detected frame rate not yet stored because the video has no notebook; saved with the first setting
+  const pendingDetectedRef = useRef<number | undefined>(undefined);
+
+  useEffect(() => {
+    setMeta({});
+    pendingDetectedRef.current = undefined;
+    if (!notebookId) return;
+
+    let cancelled = false;
+    getNotebook(notebookId)
+      .then((notebook) => {
+        if (!cancelled) setMeta(notebook?.meta ?? {});
+      })
+      // Defaults stand in; the notes panel reports a notebook that can't be read
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [notebookId, revision]);
+
+  const updateMeta = useCallback((patch: Partial<VideoMeta>) => {
+    if (!notebookId || !videoFilename) return;
+    setMeta((current) => ({ ...current, ...patch }));
+    const update = (notebook: Notebook) => ({ ...notebook, meta: { ...notebook.meta, ...patch } });
+
+    // Detection runs whenever a video plays, so on its own it mustn't create a notebook
+    if (Object.keys(patch).every((key) => key === "detectedFrameRate")) {
+      updateExistingNotebook(notebookId, update)
+        .then((notebook) => {
+          if (!notebook) pendingDetectedRef.current = patch.detectedFrameRate;
+        })
+        .catch(() => toast.error("Could not save video settings"));
+      return;
+    }
+
+    const detectedFrameRate = pendingDetectedRef.current;
+    pendingDetectedRef.current = undefined;
+    updateNotebook(notebookId, videoFilename, (notebook) =>
+      update(detectedFrameRate === undefined ? notebook : { ...notebook, meta: { detectedFrameRate, ...notebook.meta } })
+    ).catch(() => toast.error("Could not save video settings"));
+  }, [notebookId, videoFilename]);
+
+  const reload = useCallback(() => setRevision((current) => current + 1), []);
+
+  const frameRate = resolveFrameRate(meta);
+
+  const timecode = useMemo(() => resolveTimecodeSettings(meta), [meta]);
+
+  return { meta, frameRate, timecode, updateMeta, reload };
+}
@@ -0,0 +1,14 @@
+/** Saves content as a file through a temporary object URL. */
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// "clip.final.mp4" -> "clip.final"
+export const stripExtension = (filename: string) => filename.replace(/\.[^/.]+$/, "");
@@ -0,0 +1,53 @@
+import { STAMP_SELECTOR } from "@/lib/stamps";
+
+/*
+ * Caret positions as character offsets into the editor's text, so a caret can be restored after
+ * the editor DOM is rebuilt (undo/redo). Stamp chips count as their visible text.
+ */
+
+export const getCaretOffset = (editor: HTMLElement) => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!editor.contains(range.endContainer)) return null;
+
+  const prefix = document.createRange();
+  prefix.selectNodeContents(editor);
+  prefix.setEnd(range.endContainer, range.endOffset);
+  return prefix.toString().length;
+};
+
+export const setCaretOffset = (editor: HTMLElement, offset: number) => {
+  const selection = window.getSelection();
+  if (!selection) return;
+
+  const range = document.createRange();
+  const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let placed = false;
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length ?? 0;
+    if (remaining <= length) {
+      // A caret can't sit inside a non-editable stamp chip; put it after the chip
+      const stamp = node.parentElement?.closest(STAMP_SELECTOR);
+      if (stamp) {
+        range.setStartAfter(stamp);
+      } else {
+        range.setStart(node, remaining);
+      }
+      placed = true;
+      break;
+    }
+    remaining -= length;
+  }
+
+  if (!placed) {
+    range.selectNodeContents(editor);
+    range.collapse(false);
+  }
+  range.collapse(true);
+  selection.removeAllRanges();
+  selection.addRange(range);
+};
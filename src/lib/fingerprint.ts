@@ -0,0 +1,33 @@
+const SAMPLE_COUNT = 8;
+const SAMPLE_SIZE = 64 * 1024;
+
+const toHex = (buffer: ArrayBuffer) => {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * Identifies a video by its content rather than its name: byte size, duration and a SHA-256 over
+ * evenly spaced chunks of the file. Renamed copies share a fingerprint; different files named
+ * `final.mp4` do not. Reading a few chunks keeps this fast for multi-gigabyte footage.
+ */
+export const fingerprintVideo = async (file: File, duration: number) => {
+  // Small files are hashed whole
+  const isSmall = file.size <= SAMPLE_COUNT * SAMPLE_SIZE;
+  const sampleCount = isSmall ? 1 : SAMPLE_COUNT;
+  const sampleSize = isSmall ? file.size : SAMPLE_SIZE;
+  const stride = isSmall ? 0 : (file.size - SAMPLE_SIZE) / (SAMPLE_COUNT - 1);
+
+  const chunks = await Promise.all(
+    Array.from({ length: sampleCount }, (_, i) => {
+      const start = Math.floor(i * stride);
+      return file.slice(start, start + sampleSize).arrayBuffer();
+    })
+  );
+  const chunkHashes = await Promise.all(chunks.map((chunk) => crypto.subtle.digest("SHA-256", chunk)));
+  const combined = await crypto.subtle.digest(
+    "SHA-256",
+    new Uint8Array(chunkHashes.flatMap((hash) => [...new Uint8Array(hash)]))
+  );
+
+  return `${file.size}-${Math.round(duration * 1000)}-${toHex(combined).slice(0, 32)}`;
+};
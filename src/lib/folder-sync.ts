@@ -0,0 +1,119 @@
+import { NOTEBOOK_FILE_EXTENSION, parseNotebookFile, serializeNotebook } from "@/lib/notebook-file";
+import {
+  getNotebook,
+  getStoredHandle,
+  isVideoNotebookId,
+  putNotebook,
+  putStoredHandle,
+  type Notebook,
+} from "@/lib/notes-db";
+
+/*
+ * Keeps notes beside the footage: with a folder linked, every save also writes the notebook as a
+ * sidecar (`clip.mp4.alairy.json`, the notebook file format) into it, and opening a video reads
+ * its sidecar back when that copy is newer. Browsers without the File System Access API use the
+ * download/upload flow instead.
+ */
+
+const LINKED_FOLDER_KEY = "linked-folder";
+
+// Parts of the File System Access API that aren't in TypeScript's DOM library yet
+type PermissionMode = { mode: "read" | "readwrite" };
+
+interface PermissionHandle {
+  queryPermission(descriptor: PermissionMode): Promise<PermissionState>;
+  requestPermission(descriptor: PermissionMode): Promise<PermissionState>;
+}
+
+interface DirectoryPickerWindow {
+  showDirectoryPicker(options?: { id?: string; mode?: PermissionMode["mode"] }): Promise<FileSystemDirectoryHandle>;
+}
+
+export const isFolderSyncSupported = () => "showDirectoryPicker" in window;
+
+export const sidecarFilename = (videoFilename: string) => `${videoFilename}${NOTEBOOK_FILE_EXTENSION}`;
+
+export const getLinkedFolder = () => getStoredHandle<FileSystemDirectoryHandle>(LINKED_FOLDER_KEY);
+
+/** Asks the user for a folder and remembers it; resolves to null if the picker is dismissed. */
+export const linkFolder = async () => {
+  let folder: FileSystemDirectoryHandle;
+  try {
+    folder = await (window as unknown as DirectoryPickerWindow).showDirectoryPicker({ id: "alairy-notes", mode: "readwrite" });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") return null;
+    throw error;
+  }
+  await putStoredHandle(LINKED_FOLDER_KEY, folder);
+  return folder;
+};
+
+export const unlinkFolder = () => putStoredHandle(LINKED_FOLDER_KEY, null);
+
+/**
+ * Whether the folder can be written to. Browsers forget the grant between sessions; asking again
+ * (`request`) only works while handling a click or key press, so background saves just check.
+ */
+export const hasFolderPermission = async (folder: FileSystemDirectoryHandle, request = false) => {
+  const handle = folder as unknown as PermissionHandle;
+  const descriptor: PermissionMode = { mode: "readwrite" };
+  if ((await handle.queryPermission(descriptor)) === "granted") return true;
+  if (!request) return false;
+  try {
+    return (await handle.requestPermission(descriptor)) === "granted";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Writes the notebook's sidecar into the linked folder; returns false when no folder is usable.
+ * Copies made in the library share the original's filename, so they'd overwrite its sidecar and
+ * are never written.
+ */
+export const writeSidecar = async (notebook: Notebook) => {
+  if (!isVideoNotebookId(notebook.id)) return false;
+  const folder = await getLinkedFolder();
+  if (!folder || !(await hasFolderPermission(folder))) return false;
+
+  const file = await folder.getFileHandle(sidecarFilename(notebook.filename), { create: true });
+  const writable = await file.createWritable();
+  await writable.write(serializeNotebook(notebook));
+  await writable.close();
+  return true;
+};
+
+const readSidecar = async (folder: FileSystemDirectoryHandle, videoFilename: string) => {
+  try {
+    const file = await folder.getFileHandle(sidecarFilename(videoFilename));
+    return parseNotebookFile(await (await file.getFile()).text());
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "NotFoundError") return null;
+    throw error;
+  }
+};
+
+/**
+ * Stores the notebook from a sidecar if it belongs to this video and was saved more recently than
+ * the copy in the browser (edited on another machine, say). Returns the adopted notebook, if any.
+ */
+export const adoptSidecar = async (notebookId: string, sidecar: Notebook) => {
+  if (sidecar.id !== notebookId) return null;
+  const stored = await getNotebook(notebookId);
+  if (stored && stored.updatedAt >= sidecar.updatedAt) return null;
+  await putNotebook(sidecar);
+  return sidecar;
+};
+
+/**
+ * Reads the sidecar for a just-opened video from the linked folder, adopting it when newer. Only
+ * checks for access: this runs long after the click that opened the video, so a lapsed grant has
+ * to be renewed from the notes folder menu.
+ */
+export const pullSidecar = async (notebookId: string, videoFilename: string) => {
+  const folder = await getLinkedFolder();
+  if (!folder || !(await hasFolderPermission(folder))) return null;
+
+  const sidecar = await readSidecar(folder, videoFilename);
+  return sidecar && adoptSidecar(notebookId, sidecar);
+};
@@ -0,0 +1,55 @@
+const THUMBNAIL_QUALITY = 0.8;
+
+const nextEvent = (video: HTMLVideoElement, event: "loadeddata" | "seeked") => {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener("error", onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(video.error);
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener("error", onError);
+  });
+};
+
+/**
+ * Grabs JPEG thumbnails (as data URLs) of a video at the given times. A detached `<video>` on the
+ * same source does the seeking, so the visible player keeps its position and playback state.
+ */
+export const captureFrames = async (src: string, times: number[], width: number) => {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  const loaded = nextEvent(video, "loadeddata");
+  video.src = src;
+
+  try {
+    await loaded;
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = Math.round((video.videoHeight / video.videoWidth) * width) || Math.round((width * 9) / 16);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas 2D context unavailable");
+
+    const thumbnails = new Map<number, string>();
+    for (const time of times) {
+      if (thumbnails.has(time)) continue;
+      const seeked = nextEvent(video, "seeked");
+      video.currentTime = Math.max(0, Math.min(video.duration || 0, time));
+      await seeked;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      thumbnails.set(time, canvas.toDataURL("image/jpeg", THUMBNAIL_QUALITY));
+    }
+    return thumbnails;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+  }
+};
@@ -0,0 +1,37 @@
+export const DEFAULT_FRAME_RATE = 30;
+
+// NTSC rates are stored exactly (24000/1001, not 23.976) so frame math doesn't drift over long clips
+export const STANDARD_FRAME_RATES = [24000 / 1001, 24, 25, 30000 / 1001, 30, 48, 50, 60000 / 1001, 60];
+
+// Measured rates within this fraction of a standard rate snap to it
+const SNAP_TOLERANCE = 0.005;
+
+export const snapFrameRate = (measured: number) => {
+  const nearest = STANDARD_FRAME_RATES.reduce((best, rate) =>
+    Math.abs(rate - measured) < Math.abs(best - measured) ? rate : best
+  );
+  return Math.abs(nearest - measured) / nearest <= SNAP_TOLERANCE ? nearest : measured;
+};
+
+export const isSameFrameRate = (a: number, b: number) => Math.abs(a - b) < 0.001;
+
+export const formatFrameRate = (frameRate: number) => {
+  return parseFloat(frameRate.toFixed(3)).toString();
+};
+
+// The epsilon (in frames) absorbs float and microsecond rounding of times that sit on a frame boundary,
+// such as the `mediaTime` reported by requestVideoFrameCallback
+export const timeToFrame = (time: number, frameRate: number) => {
+  return Math.floor(time * frameRate + 1e-3);
+};
+
+export const frameToTime = (frame: number, frameRate: number) => {
+  return frame / frameRate;
+};
+
+// Seeking exactly onto a boundary can resolve to the previous frame after rounding, so aim just past it
+const SEEK_NUDGE = 1e-4;
+
+export const frameToSeekTime = (frame: number, frameRate: number) => {
+  return frameToTime(frame, frameRate) + SEEK_NUDGE;
+};
@@ -0,0 +1,98 @@
+import { timeToFrame } from "@/lib/frame-rate";
+import { stampSections, type NoteDocument } from "@/lib/note-document";
+import { formatClockTime, formatStampText, formatStampTimecodes, type Stamp } from "@/lib/stamps";
+import { frameToTimecode, type TimecodeSettings } from "@/lib/timecode";
+
+/*
+ * Single-file HTML review report: a header for the video, then one entry per stamp with its
+ * thumbnail, timecode and note. Thumbnails are embedded as data URLs so the file can be mailed
+ * or printed to PDF on its own.
+ */
+
+interface ReportOptions {
+  filename: string;
+  // Seconds, or null when no video is loaded
+  duration: number | null;
+  timecode: TimecodeSettings;
+  // Thumbnail data URLs for the document's stamps; stamps without one are listed without a picture
+  thumbnails: Map<Stamp, string>;
+}
+
+const escapeHtml = (text: string) => {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+};
+
+// Text written before the first stamp isn't tied to a moment, so it's shown as general notes
+const leadingText = (doc: NoteDocument) => {
+  const lines: string[] = [];
+  for (const block of doc.blocks) {
+    if (block.children.some((child) => child.type === "stamp")) break;
+    const line = block.children.map((child) => (child.type === "text" ? child.text : "")).join("").trim();
+    if (line) lines.push(line);
+  }
+  return lines;
+};
+
+const paragraphs = (lines: string[]) => lines.map((line) => `<p>${escapeHtml(line)}</p>`).join("");
+
+const stampHeading = (stamp: Stamp, timecode: TimecodeSettings) => {
+  const primary = formatStampText(stamp, timecode);
+  const timecodeText = formatStampTimecodes(stamp, timecode);
+  return primary === timecodeText ? primary : `${primary} <span class="muted">${timecodeText}</span>`;
+};
+
+const REPORT_STYLES = `
+  body { font: 14px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1a1a1a; max-width: 960px; margin: 0 auto; padding: 32px; }
+  header { border-bottom: 2px solid #1a1a1a; margin-bottom: 24px; padding-bottom: 12px; }
+  h1 { font-size: 22px; margin: 0 0 4px; word-break: break-all; }
+  .muted { color: #666; font-weight: normal; }
+  .general { margin-bottom: 24px; }
+  .entry { display: flex; gap: 16px; padding: 16px 0; border-bottom: 1px solid #ddd; break-inside: avoid; page-break-inside: avoid; }
+  .entry img { width: 240px; height: auto; flex-shrink: 0; border-radius: 4px; background: #000; }
+  .entry .placeholder { width: 240px; flex-shrink: 0; }
+  .entry h2 { font-size: 15px; margin: 0 0 6px; font-variant-numeric: tabular-nums; }
+  .entry p, .general p { margin: 0 0 4px; white-space: pre-wrap; }
+  @media print {
+    body { padding: 0; }
+    @page { margin: 16mm; }
+  }
+`;
+
+export const buildHtmlReport = (doc: NoteDocument, { filename, duration, timecode, thumbnails }: ReportOptions) => {
+  const sections = stampSections(doc);
+  const general = leadingText(doc);
+  const durationText = duration
+    ? `${formatClockTime(duration)} (${frameToTimecode(timeToFrame(duration, timecode.frameRate), timecode)})`
+    : "unknown";
+
+  const entries = sections.map(({ stamp, lines }) => {
+    const thumbnail = thumbnails.get(stamp);
+    const picture = thumbnail
+      ? `<img src="${thumbnail}" alt="Frame at ${escapeHtml(formatStampText(stamp, timecode))}">`
+      : thumbnails.size ? `<div class="placeholder"></div>` : "";
+    return `<section class="entry">${picture}<div><h2>${stampHeading(stamp, timecode)}</h2>${paragraphs(lines)}</div></section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Notes for ${escapeHtml(filename)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(filename)}</h1>
+<div class="muted">Duration ${durationText} · ${sections.length} ${sections.length === 1 ? "stamp" : "stamps"} · Exported ${escapeHtml(new Date().toLocaleString())}</div>
+</header>
+${general.length ? `<div class="general">${paragraphs(general)}</div>` : ""}
+${entries.join("\n")}
+</body>
+</html>
+`;
+};
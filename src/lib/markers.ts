@@ -0,0 +1,208 @@
+import { stampSections, type NoteDocument } from "@/lib/note-document";
+import { stampDurationFrames, stampFrame } from "@/lib/stamps";
+import { frameToTimecode, parseTimecode, type TimecodeSettings } from "@/lib/timecode";
+
+/*
+ * Timeline marker exports for NLEs. Each stamp becomes a marker on the frame it points at, one
+ * frame long or spanning a range stamp's frames, named after the note written after it. Record
+ * timecodes include the video's start timecode, so markers line up with the source clip's own
+ * timecode in the edit suite.
+ */
+
+export interface Marker {
+  // Media frame index, counted from the video's first frame
+  frame: number;
+  // Length in frames; 1 unless the marker came from a range stamp
+  duration: number;
+  name: string;
+  comment: string;
+}
+
+const MARKER_NAME_LENGTH = 60;
+
+export const documentToMarkers = (doc: NoteDocument, frameRate: number): Marker[] => {
+  return stampSections(doc)
+    .map(({ stamp, lines }) => {
+      const comment = lines.join(" ");
+      return {
+        frame: stampFrame(stamp, frameRate),
+        duration: stampDurationFrames(stamp),
+        name: (lines[0] ?? stamp.label).slice(0, MARKER_NAME_LENGTH),
+        comment,
+      };
+    })
+    .sort((a, b) => a.frame - b.frame);
+};
+
+// EDL lines are fixed-layout ASCII; Resolve additionally splits its marker fields on "|"
+const edlText = (text: string) => {
+  return text.normalize("NFKD").replace(/[^\x20-\x7e]/g, "").replace(/\|/g, "/").replace(/\s+/g, " ").trim();
+};
+
+const edlHeader = (title: string, timecode: TimecodeSettings) => {
+  return `TITLE: ${edlText(title)}\nFCM: ${timecode.dropFrame ? "DROP FRAME" : "NON-DROP FRAME"}\n\n`;
+};
+
+const edlEvent = (number: number, reel: string, start: string, end: string) => {
+  return `${number.toString().padStart(3, "0")}  ${reel.padEnd(8)} V     C        ${start} ${end} ${start} ${end}`;
+};
+
+// Frame just past the end of the last marker
+const markersEnd = (markers: Marker[]) => Math.max(1, ...markers.map((marker) => marker.frame + marker.duration));
+
+/**
+ * CMX3600 EDL with a single event for the clip and a `* LOC:` locator comment per marker, the
+ * form Avid and Premiere read locators from. Locators have no length, so ranges mark their start.
+ * The event runs to `durationFrames` when known.
+ */
+export const formatCmx3600Locators = (
+  markers: Marker[],
+  title: string,
+  filename: string,
+  timecode: TimecodeSettings,
+  durationFrames?: number
+) => {
+  const end = Math.max(durationFrames ?? 0, markersEnd(markers));
+  const lines = [
+    edlEvent(1, "AX", frameToTimecode(0, timecode), frameToTimecode(end, timecode)),
+    `* FROM CLIP NAME: ${edlText(filename)}`,
+    ...markers.map((marker) => `* LOC: ${frameToTimecode(marker.frame, timecode)} RED     ${edlText(marker.comment || marker.name)}`),
+  ];
+  return `${edlHeader(title, timecode)}${lines.join("\n")}\n`;
+};
+
+/** DaVinci Resolve's marker EDL (Timeline > Import > Timeline Markers from EDL): one event per marker. */
+export const formatResolveMarkerEdl = (markers: Marker[], title: string, timecode: TimecodeSettings) => {
+  const events = markers.map((marker, index) => {
+    const start = frameToTimecode(marker.frame, timecode);
+    const end = frameToTimecode(marker.frame + marker.duration, timecode);
+    return `${edlEvent(index + 1, "001", start, end)}\n |C:ResolveColorBlue |M:${edlText(marker.name)} |D:${marker.duration}\n`;
+  });
+  return `${edlHeader(title, timecode)}${events.join("\n")}`;
+};
+
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+/** Marker list in the column layout of Premiere Pro's marker export. */
+export const formatPremiereMarkerCsv = (markers: Marker[], timecode: TimecodeSettings) => {
+  const rows = markers.map((marker) =>
+    [
+      marker.name,
+      marker.comment,
+      frameToTimecode(marker.frame, timecode),
+      frameToTimecode(marker.frame + marker.duration, timecode),
+      // Premiere reads the duration as a frame count; drop-frame labels would come out short
+      frameToTimecode(marker.duration, { ...timecode, startFrame: 0, dropFrame: false }),
+      "Comment",
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  const header = ["Marker Name", "Description", "In", "Out", "Duration", "Marker Type"].map(csvField).join(",");
+  return `${[header, ...rows].join("\r\n")}\r\n`;
+};
+
+// FCPXML times are rational seconds; NTSC rates need the 1001 denominator to stay frame-exact
+const rationalTime = (frames: number, frameRate: number) => {
+  const ntscBase = Math.round(frameRate * 1001);
+  if (!Number.isInteger(frameRate) && Math.abs(frameRate * 1001 - ntscBase) < 1e-6 && ntscBase % 1000 === 0) {
+    return `${frames * 1001}/${ntscBase}s`;
+  }
+  if (Number.isInteger(frameRate)) {
+    return `${frames}/${frameRate}s`;
+  }
+  return `${Math.round((frames / frameRate) * 1000)}/1000s`;
+};
+
+const xmlText = (text: string) => {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+};
+
+/** Final Cut Pro XML (1.9) project holding the clip with its markers; relink the clip after import. */
+export const formatFcpxmlMarkers = (
+  markers: Marker[],
+  title: string,
+  filename: string,
+  timecode: TimecodeSettings,
+  durationFrames?: number
+) => {
+  const { frameRate, startFrame } = timecode;
+  const duration = rationalTime(Math.max(durationFrames ?? 0, markersEnd(markers)), frameRate);
+  const start = rationalTime(startFrame, frameRate);
+  const tcFormat = timecode.dropFrame ? "DF" : "NDF";
+  const name = xmlText(filename);
+
+  const markerElements = markers.map(
+    (marker) =>
+      `              <marker start="${rationalTime(startFrame + marker.frame, frameRate)}" duration="${rationalTime(marker.duration, frameRate)}" value="${xmlText(marker.name)}"${marker.comment ? ` note="${xmlText(marker.comment)}"` : ""}/>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.9">
+  <resources>
+    <format id="r1" frameDuration="${rationalTime(1, frameRate)}"/>
+    <asset id="r2" name="${name}" start="${start}" duration="${duration}" hasVideo="1" format="r1">
+      <media-rep kind="original-media" src="file:///${encodeURI(filename)}"/>
+    </asset>
+  </resources>
+  <library>
+    <event name="Alairy">
+      <project name="${xmlText(title)}">
+        <sequence format="r1" tcStart="${start}" tcFormat="${tcFormat}" duration="${duration}">
+          <spine>
+            <asset-clip ref="r2" name="${name}" offset="${start}" start="${start}" duration="${duration}" tcFormat="${tcFormat}">
+${markerElements.join("\n")}
+            </asset-clip>
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`;
+};
+
+const EDL_EVENT = /^\d{3,}\s+\S+\s+\S+\s+\S+\s+(\S+)\s+(\S+)\s+(\S+)\s+(\S+)/;
+// Timecode, then the color and comment, either of which may be left off
+const EDL_LOCATOR = /^\*\s*LOC:\s*(\S+)(?:\s+\S+\s*(.*))?$/;
+
+/**
+ * Reads markers from a Resolve marker EDL (the record-in of each event, named by its `|M:` field)
+ * or from CMX3600 `* LOC:` locators; a locator without a comment gives an unnamed marker. Frames
+ * are returned as timecode frame counts; callers translate them to media frames.
+ */
+export const parseMarkerEdl = (content: string, timecode: TimecodeSettings) => {
+  const markers: { timecodeFrame: number; name: string; isLocator: boolean }[] = [];
+  let pendingEvent: (typeof markers)[number] | null = null;
+
+  content.replace(/\r\n?/g, "\n").split("\n").forEach((rawLine) => {
+    const line = rawLine.trim();
+
+    const event = line.match(EDL_EVENT);
+    if (event) {
+      const frame = parseTimecode(event[3], timecode.frameRate, timecode.dropFrame);
+      pendingEvent = frame === null ? null : { timecodeFrame: frame, name: "", isLocator: false };
+      if (pendingEvent) markers.push(pendingEvent);
+      return;
+    }
+
+    const locator = line.match(EDL_LOCATOR);
+    if (locator) {
+      const frame = parseTimecode(locator[1], timecode.frameRate, timecode.dropFrame);
+      if (frame !== null) markers.push({ timecodeFrame: frame, name: locator[2]?.trim() ?? "", isLocator: true });
+      return;
+    }
+
+    const name = line.match(/\|M:(.*?)(?:\s\|[A-Z]:|$)/);
+    if (name && pendingEvent) {
+      pendingEvent.name = name[1].trim();
+    }
+  });
+
+  // Events that only carry locators (the CMX3600 clip event) aren't markers themselves
+  const hasLocators = markers.some((marker) => marker.isLocator);
+  return markers
+    .filter((marker) => !hasLocators || marker.isLocator || marker.name)
+    .map(({ timecodeFrame, name }) => ({ timecodeFrame, name }));
+};
@@ -0,0 +1,266 @@
+import { z } from "zod";
+import { STAMP_SELECTOR, formatStampPlain, readStampElement, stampSchema, type Stamp } from "@/lib/stamps";
+import type { TimecodeSettings } from "@/lib/timecode";
+
+/*
+ * Notes are stored as a typed document instead of the HTML contentEditable happens to produce.
+ * The editor DOM is parsed into this model on every save and rebuilt from it on load, so only
+ * what the schema describes (paragraphs, marked text, stamps) ever reaches storage or exports.
+ */
+
+const textMarkSchema = z.enum(["bold", "italic", "underline"]);
+
+const textNodeSchema = z.object({
+  type: z.literal("text"),
+  text: z.string(),
+  marks: z.array(textMarkSchema).optional(),
+});
+
+const stampNodeSchema = z.object({
+  type: z.literal("stamp"),
+  stamp: stampSchema,
+});
+
+const inlineNodeSchema = z.discriminatedUnion("type", [textNodeSchema, stampNodeSchema]);
+
+const paragraphSchema = z.object({
+  type: z.literal("paragraph"),
+  children: z.array(inlineNodeSchema),
+});
+
+export const NOTE_DOCUMENT_VERSION = 1;
+
+export const noteDocumentSchema = z.object({
+  version: z.literal(NOTE_DOCUMENT_VERSION),
+  blocks: z.array(paragraphSchema),
+});
+
+export type TextMark = z.infer<typeof textMarkSchema>;
+export type TextNode = z.infer<typeof textNodeSchema>;
+export type StampNode = z.infer<typeof stampNodeSchema>;
+export type InlineNode = z.infer<typeof inlineNodeSchema>;
+export type Paragraph = z.infer<typeof paragraphSchema>;
+export type NoteDocument = z.infer<typeof noteDocumentSchema>;
+
+export const emptyDocument = (): NoteDocument => ({ version: NOTE_DOCUMENT_VERSION, blocks: [] });
+
+const MARK_TAGS: Record<string, TextMark> = {
+  B: "bold",
+  STRONG: "bold",
+  I: "italic",
+  EM: "italic",
+  U: "underline",
+};
+
+const MARK_ELEMENTS: Record<TextMark, string> = {
+  bold: "b",
+  italic: "i",
+  underline: "u",
+};
+
+const BLOCK_TAGS = new Set(["DIV", "P", "LI", "UL", "OL", "BLOCKQUOTE", "PRE", "H1", "H2", "H3", "H4", "H5", "H6", "TR"]);
+
+// Content of these elements is never user text
+const SKIPPED_TAGS = new Set(["SCRIPT", "STYLE", "TEMPLATE", "IFRAME", "OBJECT", "EMBED", "SVG", "CANVAS", "NOSCRIPT", "HEAD", "TITLE", "META", "LINK"]);
+
+const sameMarks = (a: TextMark[] = [], b: TextMark[] = []) => {
+  return a.length === b.length && a.every((mark) => b.includes(mark));
+};
+
+/** Parses an editor (or any HTML) subtree into a document, dropping everything the schema can't express. */
+export const domToDocument = (root: Node): NoteDocument => {
+  const blocks: Paragraph[] = [];
+  let current: InlineNode[] | null = null;
+
+  const inline = () => {
+    if (!current) {
+      const paragraph: Paragraph = { type: "paragraph", children: [] };
+      blocks.push(paragraph);
+      current = paragraph.children;
+    }
+    return current;
+  };
+
+  const endBlock = () => {
+    current = null;
+  };
+
+  const pushText = (text: string, marks: TextMark[]) => {
+    if (!text) return;
+    const children = inline();
+    const last = children[children.length - 1];
+    if (last?.type === "text" && sameMarks(last.marks, marks)) {
+      last.text += text;
+    } else {
+      children.push(marks.length ? { type: "text", text, marks: [...marks] } : { type: "text", text });
+    }
+  };
+
+  const walk = (node: Node, marks: TextMark[]) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      pushText(node.textContent ?? "", marks);
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as HTMLElement;
+    const tag = element.tagName.toUpperCase();
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    if (element.matches(STAMP_SELECTOR)) {
+      const stamp = readStampElement(element);
+      if (stamp) inline().push({ type: "stamp", stamp });
+      return;
+    }
+
+    // A <br> ends the line; on an empty line it is the line itself
+    if (tag === "BR") {
+      inline();
+      endBlock();
+      return;
+    }
+
+    const mark = MARK_TAGS[tag];
+    const childMarks = mark && !marks.includes(mark) ? [...marks, mark] : marks;
+    const isBlock = BLOCK_TAGS.has(tag);
+
+    if (isBlock) endBlock();
+    element.childNodes.forEach((child) => walk(child, childMarks));
+    if (isBlock) endBlock();
+  };
+
+  root.childNodes.forEach((child) => walk(child, []));
+  return { version: NOTE_DOCUMENT_VERSION, blocks };
+};
+
+// DOMParser documents are inert: scripts don't run and images, frames and styles don't load
+export const htmlToDocument = (html: string) => {
+  const parsed = new DOMParser().parseFromString(html, "text/html");
+  return domToDocument(parsed.body);
+};
+
+export const plainTextToDocument = (text: string): NoteDocument => ({
+  version: NOTE_DOCUMENT_VERSION,
+  blocks: text.split(/\r\n|\r|\n/).map((line) => ({
+    type: "paragraph",
+    children: line ? [{ type: "text", text: line }] : [],
+  })),
+});
+
+/** Builds editor DOM for a document; stamp chips are rendered by the caller. */
+export const documentToDom = (doc: NoteDocument, renderStamp: (stamp: Stamp) => HTMLElement) => {
+  const fragment = document.createDocumentFragment();
+
+  doc.blocks.forEach((block) => {
+    const line = document.createElement("div");
+    block.children.forEach((child) => {
+      if (child.type === "stamp") {
+        line.appendChild(renderStamp(child.stamp));
+        return;
+      }
+      const node = (child.marks ?? []).reduce<Node>((inner, mark) => {
+        const wrapper = document.createElement(MARK_ELEMENTS[mark]);
+        wrapper.appendChild(inner);
+        return wrapper;
+      }, document.createTextNode(child.text));
+      line.appendChild(node);
+    });
+    if (!line.hasChildNodes()) {
+      line.appendChild(document.createElement("br"));
+    }
+    fragment.appendChild(line);
+  });
+
+  return fragment;
+};
+
+/**
+ * Rebuilds foreign content (pasted HTML, legacy notes) as editor DOM containing only the
+ * allow-list: line blocks, bold/italic/underline text and stamp chips re-rendered from validated
+ * data. Attributes, styles, handlers and every other element are dropped. A single line comes
+ * back as inline nodes so it can be inserted mid-paragraph.
+ */
+export const sanitizeToEditorDom = (doc: NoteDocument, renderStamp: (stamp: Stamp) => HTMLElement) => {
+  const fragment = documentToDom(doc, renderStamp);
+  if (doc.blocks.length !== 1 || !fragment.firstChild) return fragment;
+
+  const inlineFragment = document.createDocumentFragment();
+  const line = fragment.firstChild;
+  if (doc.blocks[0].children.length) {
+    inlineFragment.append(...Array.from(line.childNodes));
+  }
+  return inlineFragment;
+};
+
+/** Flattens a document to plain text, one paragraph per line, with stamps in brackets. */
+export const documentToText = (doc: NoteDocument, timecode: TimecodeSettings) => {
+  return doc.blocks
+    .map((block) =>
+      block.children
+        .map((child) => (child.type === "stamp" ? formatStampPlain(child.stamp, timecode) : child.text))
+        .join("")
+    )
+    .join("\n");
+};
+
+export const documentToMarkdown = (doc: NoteDocument, title: string, timecode: TimecodeSettings) => {
+  return `# Notes for ${title}\n\n${documentToText(doc, timecode)}`;
+};
+
+/**
+ * Splits a document at its stamps: each stamp with the note text written after it, up to the next
+ * stamp, as trimmed non-empty lines. Text before the first stamp belongs to no section.
+ */
+export const stampSections = (doc: NoteDocument) => {
+  const sections: { stamp: Stamp; lines: string[] }[] = [];
+
+  doc.blocks.forEach((block) => {
+    let line = "";
+    const flush = () => {
+      const current = sections[sections.length - 1];
+      if (current && line.trim()) current.lines.push(line.trim());
+      line = "";
+    };
+
+    block.children.forEach((child) => {
+      if (child.type === "stamp") {
+        flush();
+        sections.push({ stamp: child.stamp, lines: [] });
+      } else {
+        line += child.text;
+      }
+    });
+    flush();
+  });
+
+  return sections;
+};
+
+/** Stamp and word counts for a document; stamps don't count as words. */
+export const documentStats = (doc: NoteDocument) => {
+  let stamps = 0;
+  let words = 0;
+  doc.blocks.forEach((block) => {
+    const text = block.children
+      .map((child) => {
+        if (child.type === "stamp") {
+          stamps += 1;
+          return " ";
+        }
+        return child.text;
+      })
+      .join("");
+    words += text.split(/\s+/).filter(Boolean).length;
+  });
+  return { stamps, words };
+};
+
+/** Parses and validates a stored or serialized document; anything invalid yields null. */
+export const deserializeDocument = (value: unknown): NoteDocument | null => {
+  try {
+    const result = noteDocumentSchema.safeParse(typeof value === "string" ? JSON.parse(value) : value);
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,205 @@
+import { parseMarkerEdl } from "@/lib/markers";
+import { NOTE_DOCUMENT_VERSION, type NoteDocument, type Paragraph } from "@/lib/note-document";
+import { stampTime, type Stamp } from "@/lib/stamps";
+import { parseSubtitles } from "@/lib/subtitles";
+import { parseTimecode, type TimecodeSettings } from "@/lib/timecode";
+
+/*
+ * Imports review feedback (subtitles, Frame.io comment CSVs, marker EDLs) as stamps followed by
+ * their text, and merges them into a notes document.
+ */
+
+export const IMPORT_FILE_TYPES = ".srt,.vtt,.csv,.edl";
+
+export type ImportMergeMode = "append" | "interleave";
+
+export interface ImportedNote {
+  stamp: Stamp;
+  text: string;
+}
+
+const framesPerHour = (frameRate: number) => Math.round(frameRate) * 3600;
+
+/**
+ * Turns timecode frame counts into media frames. Timecodes normally include the video's start
+ * timecode; when some fall before it, they're taken to be on a timeline starting at the hour
+ * (01:00:00:00 in most NLEs) instead.
+ */
+const toMediaFrames = (timecodeFrames: number[], timecode: TimecodeSettings) => {
+  const earliest = Math.min(...timecodeFrames);
+  const offset = earliest >= timecode.startFrame
+    ? timecode.startFrame
+    : Math.floor(earliest / framesPerHour(timecode.frameRate)) * framesPerHour(timecode.frameRate);
+  return timecodeFrames.map((frame) => frame - offset);
+};
+
+const createStamp = (type: Stamp["type"], value: number, index: number): Stamp => {
+  const labels = { time: "Timestamp", frame: "Frame", timecode: "Timecode" };
+  return { id: `${type}-${Date.now()}-${index}`, type, value, label: labels[type] };
+};
+
+// RFC 4180 fields: quoted fields may contain commas, doubled quotes and line breaks
+const parseCsv = (content: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+// Seconds as a plain number or h:mm:ss(.sss)
+const parseSeconds = (value: string) => {
+  const match = value.trim().match(/^(?:(\d+):)?(?:(\d{1,2}):)?(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const [, first, second, seconds] = match;
+  const [hours, minutes] = second === undefined ? [0, Number(first ?? 0)] : [Number(first), Number(second)];
+  return hours * 3600 + minutes * 60 + Number(seconds);
+};
+
+/**
+ * Frame.io comment exports. Columns are matched by header name; a frame column is preferred,
+ * then timecode, then a time in seconds. The commenter's name, when present, prefixes the text.
+ */
+const parseFrameioCsv = (content: string, timecode: TimecodeSettings): ImportedNote[] | null => {
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ""));
+  if (!header) return null;
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const column = (...names: string[]) => columns.findIndex((name) => names.includes(name));
+  const textColumn = column("comment", "text", "note", "description", "body");
+  const nameColumn = column("commenter", "name", "author", "user");
+  const frameColumn = column("frame", "frame number");
+  const timecodeColumn = column("timecode", "timecode in", "tc");
+  const secondsColumn = column("timestamp", "time", "seconds");
+  if (textColumn === -1 || (frameColumn === -1 && timecodeColumn === -1 && secondsColumn === -1)) return null;
+
+  const located = rows.flatMap((cells): { kind: Stamp["type"]; value: number; text: string }[] => {
+    const author = nameColumn === -1 ? "" : cells[nameColumn]?.trim();
+    const comment = cells[textColumn]?.trim() ?? "";
+    const text = author ? `${author}: ${comment}` : comment;
+
+    const frame = frameColumn === -1 ? NaN : parseInt(cells[frameColumn], 10);
+    if (Number.isFinite(frame)) return [{ kind: "frame", value: frame, text }];
+
+    const timecodeFrame = timecodeColumn === -1
+      ? null
+      : parseTimecode(cells[timecodeColumn] ?? "", timecode.frameRate, timecode.dropFrame);
+    if (timecodeFrame !== null) return [{ kind: "timecode", value: timecodeFrame, text }];
+
+    const seconds = secondsColumn === -1 ? null : parseSeconds(cells[secondsColumn] ?? "");
+    return seconds === null ? [] : [{ kind: "time", value: seconds, text }];
+  });
+
+  const timecodeRows = located.filter((note) => note.kind === "timecode");
+  const mediaFrames = timecodeRows.length ? toMediaFrames(timecodeRows.map((note) => note.value), timecode) : [];
+  return located.map((note, index) => {
+    const value = note.kind === "timecode" ? mediaFrames[timecodeRows.indexOf(note)] : note.value;
+    return { stamp: createStamp(note.kind, value, index), text: note.text };
+  });
+};
+
+/**
+ * Parses an import file by its extension; the video's timing turns timecodes into frames.
+ * Returns null when the content isn't in the expected format.
+ */
+export const parseImportFile = (filename: string, content: string, timecode: TimecodeSettings): ImportedNote[] | null => {
+  const extension = filename.split(".").pop()?.toLowerCase();
+
+  switch (extension) {
+    case "srt":
+    case "vtt": {
+      const cues = parseSubtitles(content);
+      return cues.length ? cues.map((cue, index) => ({ stamp: createStamp("time", cue.start, index), text: cue.text })) : null;
+    }
+    case "edl": {
+      const markers = parseMarkerEdl(content, timecode);
+      if (!markers.length) return null;
+      const frames = toMediaFrames(markers.map((marker) => marker.timecodeFrame), timecode);
+      return markers.map((marker, index) => ({ stamp: createStamp("timecode", frames[index], index), text: marker.name }));
+    }
+    case "csv":
+      return parseFrameioCsv(content, timecode);
+    default:
+      return null;
+  }
+};
+
+// One paragraph per line of text; the stamp leads the first
+const noteParagraphs = ({ stamp, text }: ImportedNote): Paragraph[] => {
+  const [first = "", ...rest] = text.split("\n");
+  return [
+    { type: "paragraph", children: [{ type: "stamp", stamp }, ...(first ? [{ type: "text" as const, text: ` ${first}` }] : [])] },
+    ...rest.map((line): Paragraph => ({ type: "paragraph", children: line ? [{ type: "text", text: line }] : [] })),
+  ];
+};
+
+/**
+ * Adds imported notes to a document. Appending keeps their file order after the existing notes.
+ * Interleaving places each one before the first existing paragraph group stamped later; a group
+ * is a paragraph with a stamp plus the unstamped paragraphs after it, and text before the
+ * document's first stamp stays at the top.
+ */
+export const mergeImportedNotes = (
+  doc: NoteDocument,
+  notes: ImportedNote[],
+  mode: ImportMergeMode,
+  frameRate: number
+): NoteDocument => {
+  if (mode === "append") {
+    return { version: NOTE_DOCUMENT_VERSION, blocks: [...doc.blocks, ...notes.flatMap(noteParagraphs)] };
+  }
+
+  const groups: { time: number; blocks: Paragraph[] }[] = [];
+  doc.blocks.forEach((block) => {
+    const stamp = block.children.find((child) => child.type === "stamp");
+    if (stamp?.type === "stamp" || !groups.length) {
+      groups.push({ time: stamp?.type === "stamp" ? stampTime(stamp.stamp, frameRate) : -Infinity, blocks: [block] });
+    } else {
+      groups[groups.length - 1].blocks.push(block);
+    }
+  });
+
+  const sorted = [...notes].sort((a, b) => stampTime(a.stamp, frameRate) - stampTime(b.stamp, frameRate));
+  const blocks: Paragraph[] = [];
+  let next = 0;
+  groups.forEach((group) => {
+    while (next < sorted.length && group.time !== -Infinity && stampTime(sorted[next].stamp, frameRate) < group.time) {
+      blocks.push(...noteParagraphs(sorted[next++]));
+    }
+    blocks.push(...group.blocks);
+  });
+  sorted.slice(next).forEach((note) => blocks.push(...noteParagraphs(note)));
+
+  return { version: NOTE_DOCUMENT_VERSION, blocks };
+};
@@ -0,0 +1,100 @@
+import type { Notebook } from "@/lib/notes-db";
+import type { Stamp } from "@/lib/stamps";
+
+/*
+ * Full-text search over stored notebooks. Each paragraph is indexed as one line of text together
+ * with the stamps that precede its characters, so a match can be traced back to the moment in the
+ * video it was written about.
+ */
+
+const SNIPPET_CONTEXT = 40;
+
+interface IndexedLine {
+  notebook: Notebook;
+  text: string;
+  lowerText: string;
+  // Stamps in this line, keyed by the text offset they sit at
+  stamps: { offset: number; stamp: Stamp }[];
+  // Last stamp of the notebook's earlier lines, used when a match comes before this line's first stamp
+  previousStamp: Stamp | null;
+}
+
+export interface NoteSearchResult {
+  notebook: Notebook;
+  lineIndex: number;
+  // Excerpt around the match, split so the matched text can be highlighted
+  snippet: { before: string; match: string; after: string };
+  stamp: Stamp | null;
+}
+
+export type NoteSearchIndex = IndexedLine[];
+
+export const buildSearchIndex = (notebooks: Notebook[]): NoteSearchIndex => {
+  return notebooks.flatMap((notebook) => {
+    let previousStamp: Stamp | null = null;
+    return notebook.document.blocks.map((block) => {
+      let text = "";
+      const stamps: IndexedLine["stamps"] = [];
+      block.children.forEach((child) => {
+        if (child.type === "stamp") {
+          stamps.push({ offset: text.length, stamp: child.stamp });
+        } else {
+          text += child.text;
+        }
+      });
+
+      const line: IndexedLine = { notebook, text, lowerText: text.toLowerCase(), stamps, previousStamp };
+      previousStamp = stamps[stamps.length - 1]?.stamp ?? previousStamp;
+      return line;
+    });
+  });
+};
+
+const stampBefore = (line: IndexedLine, offset: number) => {
+  let stamp = line.previousStamp;
+  for (const entry of line.stamps) {
+    if (entry.offset > offset) break;
+    stamp = entry.stamp;
+  }
+  return stamp;
+};
+
+const snippetAround = (text: string, start: number, end: number) => {
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  return {
+    before: `${from > 0 ? "…" : ""}${text.slice(from, start)}`,
+    match: text.slice(start, end),
+    after: `${text.slice(end, to)}${to < text.length ? "…" : ""}`,
+  };
+};
+
+/** Case-insensitive phrase search; each line contributes at most one result, at its first match. */
+export const searchNotes = (index: NoteSearchIndex, query: string, limit: number): NoteSearchResult[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const results: NoteSearchResult[] = [];
+  let lineIndex = 0;
+  let lastNotebook: Notebook | null = null;
+
+  for (const line of index) {
+    if (line.notebook !== lastNotebook) {
+      lastNotebook = line.notebook;
+      lineIndex = 0;
+    }
+    const start = line.lowerText.indexOf(needle);
+    if (start !== -1) {
+      results.push({
+        notebook: line.notebook,
+        lineIndex,
+        snippet: snippetAround(line.text, start, start + needle.length),
+        stamp: stampBefore(line, start),
+      });
+      if (results.length >= limit) break;
+    }
+    lineIndex += 1;
+  }
+
+  return results;
+};
@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { noteDocumentSchema, NOTE_DOCUMENT_VERSION, type Paragraph } from "@/lib/note-document";
+import { copyNotebookId, notebookName, type Notebook } from "@/lib/notes-db";
+import { stampSchema, type Stamp } from "@/lib/stamps";
+import { resolveFrameRate, videoMetaSchema } from "@/lib/video-meta";
+
+/*
+ * Lossless JSON form of a notebook for moving notes between machines. The document is the source
+ * of truth; `frameRate` and the flat `stamps` list are written for other tools to read and are
+ * only validated on import.
+ */
+
+const NOTEBOOK_FILE_FORMAT = "alairy-notebook";
+export const NOTEBOOK_FILE_VERSION = 1;
+export const NOTEBOOK_FILE_EXTENSION = ".alairy.json";
+
+const notebookFileSchema = z.object({
+  format: z.literal(NOTEBOOK_FILE_FORMAT),
+  version: z.literal(NOTEBOOK_FILE_VERSION),
+  exportedAt: z.string(),
+  notebook: z.object({
+    fingerprint: z.string().min(1),
+    filename: z.string(),
+    title: z.string().optional(),
+    frameRate: z.number().positive(),
+    meta: videoMetaSchema,
+    stamps: z.array(stampSchema),
+    document: noteDocumentSchema,
+    createdAt: z.number(),
+    updatedAt: z.number(),
+  }),
+});
+
+export type NotebookFile = z.infer<typeof notebookFileSchema>;
+
+export type ImportResolution = "replace" | "merge" | "keep-both";
+
+const documentStamps = (blocks: Paragraph[]) => {
+  return blocks.flatMap((block) => block.children.flatMap((child): Stamp[] => (child.type === "stamp" ? [child.stamp] : [])));
+};
+
+export const serializeNotebook = (notebook: Notebook) => {
+  const file: NotebookFile = {
+    format: NOTEBOOK_FILE_FORMAT,
+    version: NOTEBOOK_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    notebook: {
+      fingerprint: notebook.id,
+      filename: notebook.filename,
+      title: notebook.title,
+      frameRate: resolveFrameRate(notebook.meta),
+      meta: notebook.meta,
+      stamps: documentStamps(notebook.document.blocks),
+      document: notebook.document,
+      createdAt: notebook.createdAt,
+      updatedAt: notebook.updatedAt,
+    },
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/** Validates a notebook file and returns the notebook it holds, or null if it isn't one. */
+export const parseNotebookFile = (content: string): Notebook | null => {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  const result = notebookFileSchema.safeParse(json);
+  if (!result.success) return null;
+
+  const { fingerprint, filename, title, meta, document, createdAt, updatedAt } = result.data.notebook;
+  return { id: fingerprint, filename, title, meta, document, createdAt, updatedAt };
+};
+
+/**
+ * Combines an imported notebook with the one already stored for the same video.
+ * - replace: the imported notebook wins outright
+ * - merge: imported paragraphs not already present are appended; stored settings are kept,
+ *   with the imported ones filling any gaps
+ * - keep-both: the import is stored alongside as a copy
+ */
+export const resolveImportConflict = (existing: Notebook, imported: Notebook, resolution: ImportResolution): Notebook => {
+  switch (resolution) {
+    case "replace":
+      return { ...imported, updatedAt: Date.now() };
+    case "merge": {
+      const existingBlocks = new Set(existing.document.blocks.map((block) => JSON.stringify(block)));
+      const added = imported.document.blocks.filter((block) => !existingBlocks.has(JSON.stringify(block)));
+      return {
+        ...existing,
+        meta: { ...imported.meta, ...existing.meta },
+        document: { version: NOTE_DOCUMENT_VERSION, blocks: [...existing.document.blocks, ...added] },
+        updatedAt: Date.now(),
+      };
+    }
+    case "keep-both":
+      return {
+        ...imported,
+        id: copyNotebookId(),
+        title: `${notebookName(imported)} (imported)`,
+        updatedAt: Date.now(),
+      };
+  }
+};
@@ -0,0 +1,294 @@
+import { deserializeDocument, emptyDocument, htmlToDocument, type NoteDocument } from "@/lib/note-document";
+import type { VideoMeta } from "@/lib/video-meta";
+
+export interface Notebook {
+  // Video fingerprint, `legacy:<filename>` for notes migrated from localStorage until that video is
+  // reopened, or `copy:<uuid>` for a duplicate made in the library
+  id: string;
+  filename: string;
+  // Display name given in the library; the filename is shown when unset
+  title?: string;
+  document: NoteDocument;
+  meta: VideoMeta;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DB_NAME = "alairy";
+const DB_VERSION = 3;
+const NOTEBOOKS = "notebooks";
+// Browser objects that can't live in localStorage, such as the linked notes folder's handle
+const HANDLES = "handles";
+
+const LEGACY_NOTES_PREFIX = "vidnotes_";
+const LEGACY_META_PREFIX = "vidmeta_";
+
+const legacyNotebookId = (filename: string) => `legacy:${filename}`;
+export const copyNotebookId = () => `copy:${crypto.randomUUID()}`;
+// Legacy and copy ids are prefixed; only fingerprint ids belong to an actual video file
+export const isVideoNotebookId = (id: string) => !id.includes(":");
+
+export const notebookName = (notebook: Notebook) => notebook.title || notebook.filename;
+
+export const isQuotaExceeded = (error: unknown) => {
+  return error instanceof DOMException && error.name === "QuotaExceededError";
+};
+
+const promisify = <T>(request: IDBRequest<T>) => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction) => {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const legacyKeys = () => {
+  return Object.keys(localStorage).filter(
+    (key) => key.startsWith(LEGACY_NOTES_PREFIX) || key.startsWith(LEGACY_META_PREFIX)
+  );
+};
+
+// Copies `vidnotes_<filename>` HTML (and its `vidmeta_` entry) into the store under a legacy id
+const migrateLocalStorage = (store: IDBObjectStore) => {
+  const now = Date.now();
+  legacyKeys()
+    .filter((key) => key.startsWith(LEGACY_NOTES_PREFIX))
+    .forEach((key) => {
+      const filename = key.slice(LEGACY_NOTES_PREFIX.length);
+      let meta: VideoMeta = {};
+      try {
+        meta = JSON.parse(localStorage.getItem(`${LEGACY_META_PREFIX}${filename}`) || "{}");
+      } catch {
+        // Unreadable meta only loses the frame rate override
+      }
+      // Written in the version 1 shape; the version 2 upgrade converts the HTML
+      store.put({
+        id: legacyNotebookId(filename),
+        filename,
+        html: localStorage.getItem(key) || "",
+        meta,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+};
+
+// Version 2 replaced the raw editor `html` with a structured `document`
+const convertHtmlNotebooks = (store: IDBObjectStore) => {
+  store.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const { html, ...notebook } = cursor.value;
+    if (typeof html === "string") {
+      cursor.update({ ...notebook, document: htmlToDocument(html) });
+    }
+    cursor.continue();
+  };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migratedLegacy = false;
+
+    // Each case upgrades from the previous schema version; fall through to apply them in order
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      switch (event.oldVersion) {
+        case 0: {
+          const store = db.createObjectStore(NOTEBOOKS, { keyPath: "id" });
+          store.createIndex("filename", "filename");
+          store.createIndex("updatedAt", "updatedAt");
+          migrateLocalStorage(store);
+          migratedLegacy = true;
+        }
+        // falls through
+        case 1:
+          convertHtmlNotebooks(request.transaction!.objectStore(NOTEBOOKS));
+        // falls through
+        case 2:
+          db.createObjectStore(HANDLES);
+      }
+    };
+
+    request.onsuccess = () => {
+      if (migratedLegacy) {
+        legacyKeys().forEach((key) => localStorage.removeItem(key));
+      }
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const emptyNotebook = (id: string, filename: string): Notebook => {
+  const now = Date.now();
+  return { id, filename, document: emptyDocument(), meta: {}, createdAt: now, updatedAt: now };
+};
+
+/** A stored notebook whose document no longer validates; the record is left as it is. */
+export class UnreadableNotebookError extends Error {
+  constructor(readonly notebookId: string) {
+    super(`Notebook ${notebookId} could not be read`);
+    this.name = "UnreadableNotebookError";
+  }
+}
+
+// Throws rather than handing out an empty document, which the next save would write over the notes
+const readNotebook = (record: Notebook | undefined) => {
+  if (!record) return null;
+  const document = deserializeDocument(record.document);
+  if (!document) throw new UnreadableNotebookError(record.id);
+  return { ...record, document };
+};
+
+export const getNotebook = async (id: string) => {
+  const db = await openDb();
+  const notebook = await promisify(db.transaction(NOTEBOOKS).objectStore(NOTEBOOKS).get(id));
+  return readNotebook(notebook as Notebook | undefined);
+};
+
+const getAllRecords = async () => {
+  const db = await openDb();
+  const records = await promisify(db.transaction(NOTEBOOKS).objectStore(NOTEBOOKS).index("updatedAt").getAll());
+  return (records as Notebook[]).reverse();
+};
+
+/** All readable notebooks, most recently edited first; unreadable ones stay in the store untouched. */
+export const listNotebooks = async () => {
+  const records = await getAllRecords();
+  return records.flatMap((record) => {
+    try {
+      return readNotebook(record) ?? [];
+    } catch {
+      return [];
+    }
+  });
+};
+
+/** The records `listNotebooks` leaves out, exactly as stored, so a backup can still carry them. */
+export const listUnreadableNotebooks = async (): Promise<unknown[]> => {
+  const records = await getAllRecords();
+  return records.filter((record) => !deserializeDocument(record.document));
+};
+
+/** Reads, updates and writes a notebook in one transaction, creating it if it doesn't exist yet. */
+export const updateNotebook = async (id: string, filename: string, update: (notebook: Notebook) => Notebook) => {
+  const db = await openDb();
+  const transaction = db.transaction(NOTEBOOKS, "readwrite");
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(NOTEBOOKS);
+  const existing = (await promisify(store.get(id))) as Notebook | undefined;
+  const notebook = { ...update(existing ?? emptyNotebook(id, filename)), updatedAt: Date.now() };
+  store.put(notebook);
+  await done;
+  return notebook;
+};
+
+/** Like `updateNotebook`, but leaves the store alone when the notebook doesn't exist. */
+export const updateExistingNotebook = async (id: string, update: (notebook: Notebook) => Notebook) => {
+  const db = await openDb();
+  const transaction = db.transaction(NOTEBOOKS, "readwrite");
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(NOTEBOOKS);
+  const existing = (await promisify(store.get(id))) as Notebook | undefined;
+  const notebook = existing ? { ...update(existing), updatedAt: Date.now() } : null;
+  if (notebook) store.put(notebook);
+  await done;
+  return notebook;
+};
+
+/** Writes a notebook as given, replacing any stored under the same id. */
+export const putNotebook = async (notebook: Notebook) => {
+  const db = await openDb();
+  const transaction = db.transaction(NOTEBOOKS, "readwrite");
+  const done = transactionDone(transaction);
+  transaction.objectStore(NOTEBOOKS).put(notebook);
+  await done;
+};
+
+export const deleteNotebook = async (id: string) => {
+  const db = await openDb();
+  const transaction = db.transaction(NOTEBOOKS, "readwrite");
+  const done = transactionDone(transaction);
+  transaction.objectStore(NOTEBOOKS).delete(id);
+  await done;
+};
+
+/** Copies a notebook under a new id; the copy isn't tied to any video, so it stays as a snapshot. */
+export const duplicateNotebook = async (id: string, title: string) => {
+  const db = await openDb();
+  const transaction = db.transaction(NOTEBOOKS, "readwrite");
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(NOTEBOOKS);
+  const source = (await promisify(store.get(id))) as Notebook | undefined;
+  if (!source) {
+    await done;
+    throw new Error(`Notebook ${id} not found`);
+  }
+
+  const now = Date.now();
+  const copy: Notebook = { ...source, id: copyNotebookId(), title, createdAt: now, updatedAt: now };
+  store.put(copy);
+  await done;
+  return copy;
+};
+
+/**
+ * Returns the notebook id for a video fingerprint. Notes migrated from the filename-keyed
+ * localStorage format are adopted by the first video opened under that filename.
+ */
+export const resolveNotebookId = async (fingerprint: string, filename: string) => {
+  const db = await openDb();
+  const transaction = db.transaction(NOTEBOOKS, "readwrite");
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(NOTEBOOKS);
+
+  const existing = await promisify(store.getKey(fingerprint));
+  if (existing === undefined) {
+    const legacy = (await promisify(store.get(legacyNotebookId(filename)))) as Notebook | undefined;
+    if (legacy) {
+      store.put({ ...legacy, id: fingerprint });
+      store.delete(legacy.id);
+    }
+  }
+
+  await done;
+  return fingerprint;
+};
+
+export const getStoredHandle = async <T extends FileSystemHandle>(key: string) => {
+  const db = await openDb();
+  const handle = await promisify(db.transaction(HANDLES).objectStore(HANDLES).get(key));
+  return (handle as T | undefined) ?? null;
+};
+
+/** Stores a file system handle under `key`, or removes it when `handle` is null. */
+export const putStoredHandle = async (key: string, handle: FileSystemHandle | null) => {
+  const db = await openDb();
+  const transaction = db.transaction(HANDLES, "readwrite");
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(HANDLES);
+  if (handle) {
+    store.put(handle, key);
+  } else {
+    store.delete(key);
+  }
+  await done;
+};
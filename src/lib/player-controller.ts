@@ -0,0 +1,210 @@
+import { DEFAULT_FRAME_RATE, frameToSeekTime, timeToFrame } from "@/lib/frame-rate";
+import type { TimecodeSettings } from "@/lib/timecode";
+
+export type PlayerEvent =
+  | "attach"
+  | "detach"
+  | "loadedmetadata"
+  | "play"
+  | "pause"
+  | "ended"
+  | "seeked"
+  | "timeupdate"
+  | "ratechange"
+  // A new frame was presented (per requestVideoFrameCallback, or per timeupdate where unsupported)
+  | "frame"
+  // Frame rate or timecode settings changed
+  | "timing"
+  // A loop was set or cleared
+  | "loop";
+
+export type PlayerListener = () => void;
+
+// Span replayed until cleared, in seconds
+export interface PlayerLoop {
+  start: number;
+  end: number;
+}
+
+export interface PlayerTiming {
+  frameRate: number;
+  timecode: TimecodeSettings;
+}
+
+/**
+ * Typed bridge between the mounted `<video>` and anything that needs to read or drive it
+ * (notes, exporters, plugins). All getters are safe to call while no video is attached.
+ */
+export interface PlayerController {
+  isReady: () => boolean;
+  getVideoElement: () => HTMLVideoElement | null;
+  getTime: () => number;
+  getFrame: () => number;
+  getDuration: () => number;
+  getFrameRate: () => number;
+  getTimecodeSettings: () => TimecodeSettings;
+  isPlaying: () => boolean;
+  getRate: () => number;
+  seek: (time: number) => void;
+  seekToFrame: (frame: number) => void;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  setRate: (rate: number) => void;
+  getLoop: () => PlayerLoop | null;
+  // Seeking outside the loop clears it
+  setLoop: (loop: PlayerLoop | null) => void;
+  subscribe: (event: PlayerEvent, listener: PlayerListener) => () => void;
+  // Used by VideoPlayer to register its element and timing. A controller drives one element at a
+  // time; a second player needs its own PlayerControllerProvider, so attaching another throws
+  attach: (video: HTMLVideoElement) => () => void;
+  configure: (timing: PlayerTiming) => void;
+}
+
+const FORWARDED_EVENTS = ["loadedmetadata", "play", "pause", "ended", "seeked", "timeupdate", "ratechange"] as const;
+
+export const createPlayerController = (): PlayerController => {
+  const listeners = new Map<PlayerEvent, Set<PlayerListener>>();
+  let video: HTMLVideoElement | null = null;
+  let presented: VideoFrameCallbackMetadata | null = null;
+  let loop: PlayerLoop | null = null;
+  let timing: PlayerTiming = {
+    frameRate: DEFAULT_FRAME_RATE,
+    timecode: { frameRate: DEFAULT_FRAME_RATE, dropFrame: false, startFrame: 0 },
+  };
+
+  const emit = (event: PlayerEvent) => {
+    listeners.get(event)?.forEach((listener) => listener());
+  };
+
+  // currentTime runs ahead of the frame on screen during playback, so reads prefer the presented
+  // frame's mediaTime; from the start of a seek until its frame is presented, currentTime holds the target
+  const getTime = () => {
+    if (!video) return 0;
+    return presented && !video.seeking ? presented.mediaTime : video.currentTime;
+  };
+
+  const setLoop = (next: PlayerLoop | null) => {
+    if (next === loop) return;
+    loop = next;
+    emit("loop");
+  };
+
+  const seek = (time: number) => {
+    if (!video) return;
+    if (loop && (time < loop.start || time > loop.end)) setLoop(null);
+    video.currentTime = Math.max(0, Math.min(video.duration || 0, time));
+  };
+
+  // Checked on every presented frame (or timeupdate), so the jump back lands within a frame or so
+  const enforceLoop = () => {
+    if (loop && video && !video.seeking && getTime() >= loop.end) {
+      seek(loop.start);
+    }
+  };
+
+  const play = () => {
+    video?.play().catch(() => undefined);
+  };
+
+  const pause = () => {
+    video?.pause();
+  };
+
+  return {
+    isReady: () => !!video && video.readyState >= HTMLMediaElement.HAVE_METADATA,
+    getVideoElement: () => video,
+    getTime,
+    getFrame: () => timeToFrame(getTime(), timing.frameRate),
+    getDuration: () => video?.duration || 0,
+    getFrameRate: () => timing.frameRate,
+    getTimecodeSettings: () => timing.timecode,
+    isPlaying: () => !!video && !video.paused,
+    getRate: () => video?.playbackRate ?? 1,
+    seek,
+    seekToFrame: (frame) => seek(frameToSeekTime(frame, timing.frameRate)),
+    play,
+    pause,
+    togglePlay: () => (video?.paused ? play() : pause()),
+    setRate: (rate) => {
+      if (!video) return;
+      // The default rate survives the element loading a new source
+      video.defaultPlaybackRate = rate;
+      video.playbackRate = rate;
+    },
+    getLoop: () => loop,
+    setLoop,
+    subscribe: (event, listener) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+      return () => {
+        listeners.get(event)?.delete(listener);
+      };
+    },
+    attach: (element) => {
+      if (video && video !== element) {
+        throw new Error("This player controller already drives a video. Wrap each player in its own PlayerControllerProvider.");
+      }
+      video = element;
+      presented = null;
+
+      const forwarders = FORWARDED_EVENTS.map((event) => {
+        const forward = () => emit(event);
+        element.addEventListener(event, forward);
+        return () => element.removeEventListener(event, forward);
+      });
+
+      let frameHandle = 0;
+      const supportsFrameCallback = "requestVideoFrameCallback" in HTMLVideoElement.prototype;
+      const onFrame = (_now: DOMHighResTimeStamp, metadata: VideoFrameCallbackMetadata) => {
+        presented = metadata;
+        enforceLoop();
+        emit("frame");
+        frameHandle = element.requestVideoFrameCallback(onFrame);
+      };
+      const onTimeUpdate = () => {
+        enforceLoop();
+        emit("frame");
+      };
+      const onSeeking = () => {
+        presented = null;
+      };
+      // A loop running to the end of the video would otherwise stop there
+      const onEnded = () => {
+        if (!loop) return;
+        seek(loop.start);
+        play();
+      };
+      element.addEventListener("seeking", onSeeking);
+      element.addEventListener("ended", onEnded);
+      if (supportsFrameCallback) {
+        frameHandle = element.requestVideoFrameCallback(onFrame);
+      } else {
+        element.addEventListener("timeupdate", onTimeUpdate);
+      }
+
+      emit("attach");
+
+      return () => {
+        forwarders.forEach((remove) => remove());
+        element.removeEventListener("seeking", onSeeking);
+        element.removeEventListener("ended", onEnded);
+        if (supportsFrameCallback) {
+          element.cancelVideoFrameCallback(frameHandle);
+        } else {
+          element.removeEventListener("timeupdate", onTimeUpdate);
+        }
+        if (video === element) {
+          video = null;
+          presented = null;
+          setLoop(null);
+          emit("detach");
+        }
+      };
+    },
+    configure: (next) => {
+      timing = next;
+      emit("timing");
+    },
+  };
+};
@@ -0,0 +1,239 @@
+import { z } from "zod";
+
+/*
+ * Keyboard shortcuts for the player and the notes editor. A binding is written as modifiers then
+ * key, e.g. "Shift+ArrowLeft", "Alt+t" or "Space"; an empty binding leaves the action unassigned.
+ */
+
+export type ShortcutAction =
+  | "playPause"
+  | "shuttleReverse"
+  | "shuttlePause"
+  | "shuttleForward"
+  | "slower"
+  | "faster"
+  | "toggleMute"
+  | "toggleFullscreen"
+  | "skipBackShort"
+  | "skipForwardShort"
+  | "skipBackMedium"
+  | "skipForwardMedium"
+  | "skipBackLong"
+  | "skipForwardLong"
+  | "previousFrame"
+  | "nextFrame"
+  | "previousStamp"
+  | "nextStamp"
+  | "markIn"
+  | "markOut"
+  | "loopStart"
+  | "loopEnd"
+  | "toggleLoop"
+  | "insertTimeStamp"
+  | "insertFrameStamp"
+  | "insertTimecodeStamp";
+
+export type Keymap = Record<ShortcutAction, string>;
+
+export type SkipTier = "short" | "medium" | "long";
+
+export const SKIP_TIERS: SkipTier[] = ["short", "medium", "long"];
+
+export type SkipSeconds = Record<SkipTier, number>;
+
+export interface ShortcutSettings {
+  keymap: Keymap;
+  skipSeconds: SkipSeconds;
+}
+
+export const SHORTCUT_GROUPS = ["Playback", "Navigation", "Marking", "Notes"] as const;
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  group: (typeof SHORTCUT_GROUPS)[number];
+  label: string;
+  defaultBinding: string;
+  // Skip actions take their length from the tier
+  skip?: { tier: SkipTier; direction: -1 | 1 };
+}
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { action: "playPause", group: "Playback", label: "Play / pause", defaultBinding: "Space" },
+  { action: "shuttleReverse", group: "Playback", label: "Shuttle reverse", defaultBinding: "j" },
+  { action: "shuttlePause", group: "Playback", label: "Stop shuttle (hold to step frames)", defaultBinding: "k" },
+  { action: "shuttleForward", group: "Playback", label: "Shuttle forward", defaultBinding: "l" },
+  { action: "slower", group: "Playback", label: "Slower", defaultBinding: "<" },
+  { action: "faster", group: "Playback", label: "Faster", defaultBinding: ">" },
+  { action: "toggleMute", group: "Playback", label: "Mute", defaultBinding: "m" },
+  { action: "toggleFullscreen", group: "Playback", label: "Fullscreen", defaultBinding: "f" },
+  { action: "skipBackShort", group: "Navigation", label: "Skip back", defaultBinding: "Ctrl+Shift+ArrowLeft", skip: { tier: "short", direction: -1 } },
+  { action: "skipForwardShort", group: "Navigation", label: "Skip forward", defaultBinding: "Ctrl+Shift+ArrowRight", skip: { tier: "short", direction: 1 } },
+  { action: "skipBackMedium", group: "Navigation", label: "Skip back", defaultBinding: "Ctrl+ArrowLeft", skip: { tier: "medium", direction: -1 } },
+  { action: "skipForwardMedium", group: "Navigation", label: "Skip forward", defaultBinding: "Ctrl+ArrowRight", skip: { tier: "medium", direction: 1 } },
+  { action: "skipBackLong", group: "Navigation", label: "Skip back", defaultBinding: "ArrowLeft", skip: { tier: "long", direction: -1 } },
+  { action: "skipForwardLong", group: "Navigation", label: "Skip forward", defaultBinding: "ArrowRight", skip: { tier: "long", direction: 1 } },
+  { action: "previousFrame", group: "Navigation", label: "Previous frame", defaultBinding: "Shift+ArrowLeft" },
+  { action: "nextFrame", group: "Navigation", label: "Next frame", defaultBinding: "Shift+ArrowRight" },
+  { action: "previousStamp", group: "Navigation", label: "Previous stamp", defaultBinding: "Alt+ArrowLeft" },
+  { action: "nextStamp", group: "Navigation", label: "Next stamp", defaultBinding: "Alt+ArrowRight" },
+  { action: "markIn", group: "Marking", label: "Mark range start", defaultBinding: "i" },
+  { action: "markOut", group: "Marking", label: "Mark range end", defaultBinding: "o" },
+  { action: "loopStart", group: "Marking", label: "Set loop point A", defaultBinding: "a" },
+  { action: "loopEnd", group: "Marking", label: "Set loop point B", defaultBinding: "b" },
+  { action: "toggleLoop", group: "Marking", label: "Loop on/off", defaultBinding: "r" },
+  { action: "insertTimeStamp", group: "Notes", label: "Insert timestamp", defaultBinding: "Alt+t" },
+  { action: "insertFrameStamp", group: "Notes", label: "Insert frame stamp", defaultBinding: "Alt+f" },
+  { action: "insertTimecodeStamp", group: "Notes", label: "Insert timecode stamp", defaultBinding: "Alt+c" },
+];
+
+export const DEFAULT_KEYMAP = Object.fromEntries(
+  SHORTCUTS.map(({ action, defaultBinding }) => [action, defaultBinding])
+) as Keymap;
+
+export const DEFAULT_SKIP_SECONDS: SkipSeconds = { short: 1, medium: 5, long: 10 };
+
+export const DEFAULT_SHORTCUT_SETTINGS: ShortcutSettings = {
+  keymap: DEFAULT_KEYMAP,
+  skipSeconds: DEFAULT_SKIP_SECONDS,
+};
+
+// App-wide shortcuts that can't be taken by an action
+const RESERVED_BINDINGS = ["Ctrl+k", "Meta+k"];
+
+const MODIFIER_KEYS = ["Control", "Alt", "AltGraph", "Shift", "Meta", "CapsLock"];
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+};
+
+type KeyPress = Pick<KeyboardEvent, "key" | "code" | "ctrlKey" | "altKey" | "shiftKey" | "metaKey">;
+
+/** The binding a key press matches, or null for a bare modifier. */
+export const eventToBinding = (e: KeyPress): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+
+  // Alt (Option on a Mac) turns letters into symbols, so fall back to the physical key for those
+  const physical = /^(?:Key|Digit)([A-Z0-9])$/.exec(e.code);
+  const key = /^[a-z0-9]$/i.test(e.key)
+    ? e.key.toLowerCase()
+    : physical && e.altKey
+      ? physical[1].toLowerCase()
+      : e.key === " "
+        ? "Space"
+        : e.key;
+  // Shift is already part of symbols such as < and ?, so it's only recorded for letters, digits and named keys
+  const shift = e.shiftKey && (key.length > 1 || /^[a-z0-9]$/.test(key));
+
+  return [e.ctrlKey && "Ctrl", e.altKey && "Alt", shift && "Shift", e.metaKey && "Meta", key]
+    .filter(Boolean)
+    .join("+");
+};
+
+// The key itself may be "+", so the split is at the last separator before it
+const splitBinding = (binding: string) => {
+  const index = binding.length > 1 ? binding.lastIndexOf("+", binding.length - 2) : -1;
+  return { modifiers: index < 0 ? [] : binding.slice(0, index).split("+"), key: binding.slice(index + 1) };
+};
+
+/** A binding as shown to the user, e.g. "Shift+←" or "Alt+T". */
+export const formatBinding = (binding: string) => {
+  if (!binding) return "Unassigned";
+  const { modifiers, key } = splitBinding(binding);
+  const name = KEY_NAMES[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+  return [...modifiers.map((modifier) => (modifier === "Meta" ? "Cmd" : modifier)), name].join("+");
+};
+
+/** The action bound to a key press, limited to `actions` when given. */
+export const findShortcut = (keymap: Keymap, e: KeyPress, actions?: ShortcutAction[]): ShortcutAction | null => {
+  const binding = eventToBinding(e);
+  if (!binding) return null;
+  const candidates = actions ?? (Object.keys(keymap) as ShortcutAction[]);
+  return candidates.find((action) => keymap[action] === binding) ?? null;
+};
+
+export const isReservedBinding = (binding: string) => RESERVED_BINDINGS.includes(binding);
+
+/**
+ * Binds an action, unassigning any other action that had the same binding. Returns the new keymap
+ * and the action that lost its binding, if any.
+ */
+export const assignBinding = (keymap: Keymap, action: ShortcutAction, binding: string) => {
+  const displaced = binding
+    ? (Object.keys(keymap) as ShortcutAction[]).find((other) => other !== action && keymap[other] === binding) ?? null
+    : null;
+  const next = { ...keymap, [action]: binding };
+  if (displaced) next[displaced] = "";
+  return { keymap: next, displaced };
+};
+
+export const shortcutLabel = (definition: ShortcutDefinition, skipSeconds: SkipSeconds) =>
+  definition.skip ? `${definition.label} ${skipSeconds[definition.skip.tier]}s` : definition.label;
+
+/** Button tooltip text with the action's current binding, e.g. "Next Frame (Shift+→)". */
+export const withShortcut = (title: string, keymap: Keymap, action: ShortcutAction) =>
+  keymap[action] ? `${title} (${formatBinding(keymap[action])})` : title;
+
+const HELP_ENTRIES: { actions: ShortcutAction[]; label: (settings: ShortcutSettings) => string }[] = [
+  { actions: ["playPause"], label: () => "Play/Pause" },
+  { actions: ["skipBackLong", "skipForwardLong"], label: ({ skipSeconds }) => `Skip ${skipSeconds.long}s` },
+  { actions: ["skipBackMedium", "skipForwardMedium"], label: ({ skipSeconds }) => `Skip ${skipSeconds.medium}s` },
+  { actions: ["skipBackShort", "skipForwardShort"], label: ({ skipSeconds }) => `Skip ${skipSeconds.short}s` },
+  { actions: ["previousFrame", "nextFrame"], label: () => "Frame-by-frame" },
+  { actions: ["toggleFullscreen"], label: () => "Fullscreen" },
+  { actions: ["toggleMute"], label: () => "Mute" },
+  { actions: ["shuttleReverse", "shuttlePause", "shuttleForward"], label: ({ keymap }) =>
+      keymap.shuttlePause
+        ? `Shuttle; hold ${formatBinding(keymap.shuttlePause)} + ${formatBinding(keymap.shuttleReverse)}/${formatBinding(keymap.shuttleForward)} to step frames`
+        : "Shuttle" },
+  { actions: ["slower", "faster"], label: () => "Speed" },
+  { actions: ["previousStamp", "nextStamp"], label: () => "Previous/next stamp" },
+  { actions: ["markIn", "markOut"], label: () => "Mark range" },
+  { actions: ["loopStart", "loopEnd"], label: () => "Loop points" },
+  { actions: ["toggleLoop"], label: () => "Loop on/off" },
+  { actions: ["insertTimeStamp", "insertFrameStamp", "insertTimecodeStamp"], label: () => "Insert time/frame/timecode stamp" },
+];
+
+/** The shortcut help line, built from the live keymap; actions without a binding are left out. */
+export const shortcutHelp = (settings: ShortcutSettings) =>
+  HELP_ENTRIES.filter(({ actions }) => actions.some((action) => settings.keymap[action])).map(({ actions, label }) => ({
+    keys: actions
+      .filter((action) => settings.keymap[action])
+      .map((action) => formatBinding(settings.keymap[action]))
+      .join(" / "),
+    label: label(settings),
+  }));
+
+const SHORTCUTS_KEY = "alairy-shortcuts";
+
+const storedSettingsSchema = z.object({
+  keymap: z.record(z.string()).optional(),
+  skipSeconds: z
+    .object({ short: z.number().positive(), medium: z.number().positive(), long: z.number().positive() })
+    .partial()
+    .optional(),
+});
+
+/** Saved settings over the defaults, so actions added since they were saved get their default keys. */
+export const loadShortcutSettings = (): ShortcutSettings => {
+  let stored: z.infer<typeof storedSettingsSchema> = {};
+  try {
+    stored = storedSettingsSchema.parse(JSON.parse(localStorage.getItem(SHORTCUTS_KEY) ?? "{}"));
+  } catch {
+    // Unreadable settings fall back to the defaults
+  }
+
+  const keymap = { ...DEFAULT_KEYMAP };
+  for (const { action } of SHORTCUTS) {
+    const binding = stored.keymap?.[action];
+    if (binding !== undefined) keymap[action] = binding;
+  }
+  return { keymap, skipSeconds: { ...DEFAULT_SKIP_SECONDS, ...stored.skipSeconds } };
+};
+
+export const saveShortcutSettings = (settings: ShortcutSettings) => {
+  localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(settings));
+};
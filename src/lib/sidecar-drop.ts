@@ -0,0 +1,56 @@
+import { stripExtension } from "@/lib/download";
+import { emptyDocument } from "@/lib/note-document";
+import { mergeImportedNotes, parseImportFile } from "@/lib/note-import";
+import { NOTEBOOK_FILE_EXTENSION, parseNotebookFile } from "@/lib/notebook-file";
+import type { Notebook } from "@/lib/notes-db";
+import { resolveFrameRate, resolveTimecodeSettings } from "@/lib/video-meta";
+
+/*
+ * Notes that arrive with a video: dropping `clip.mp4` together with `clip.alairy.json` (or
+ * `clip.mp4.alairy.json`, `clip.srt`, `clip.vtt`) loads the notes into the video's notebook.
+ */
+
+const SIDECAR_EXTENSIONS = [NOTEBOOK_FILE_EXTENSION, ".srt", ".vtt"];
+
+export const isVideoFile = (file: File) => file.type.startsWith("video/");
+
+const isSidecarFile = (file: File) => SIDECAR_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension));
+
+/**
+ * Picks the video out of a set of dropped files, plus the notes file that goes with it: one named
+ * after the video, or else the only notes file in the drop.
+ */
+export const pickDroppedFiles = (files: File[]) => {
+  const video = files.find(isVideoFile) ?? null;
+  if (!video) return { video, sidecar: null };
+
+  const candidates = files.filter(isSidecarFile);
+  const names = [video.name, stripExtension(video.name)].map((name) => name.toLowerCase());
+  const named = candidates.find((file) =>
+    names.some((name) => SIDECAR_EXTENSIONS.some((extension) => file.name.toLowerCase() === `${name}${extension}`))
+  );
+  return { video, sidecar: named ?? (candidates.length === 1 ? candidates[0] : null) };
+};
+
+/**
+ * Reads a sidecar as the notebook it describes for `base` (the video's stored notebook, or an
+ * empty one). Notebook files are taken over whole, even when the sender's copy of the video
+ * fingerprints differently; subtitles become stamped notes dated by the file. Returns null when
+ * the file can't be read as notes.
+ */
+export const readSidecarFile = async (file: File, base: Notebook): Promise<Notebook | null> => {
+  const content = await file.text();
+
+  if (file.name.toLowerCase().endsWith(NOTEBOOK_FILE_EXTENSION)) {
+    const notebook = parseNotebookFile(content);
+    return notebook && { ...notebook, id: base.id, filename: base.filename };
+  }
+
+  const notes = parseImportFile(file.name, content, resolveTimecodeSettings(base.meta));
+  if (!notes) return null;
+  return {
+    ...base,
+    document: mergeImportedNotes(emptyDocument(), notes, "append", resolveFrameRate(base.meta)),
+    updatedAt: file.lastModified,
+  };
+};
@@ -0,0 +1,127 @@
+import { z } from "zod";
+import { frameToTime, timeToFrame } from "@/lib/frame-rate";
+import type { PlayerController } from "@/lib/player-controller";
+import { frameToTimecode, type TimecodeSettings } from "@/lib/timecode";
+
+// `value` is seconds for time stamps and a frame index for frame, timecode and range stamps.
+// Range stamps span from `value` to the frame in `end`.
+export const stampSchema = z
+  .object({
+    id: z.string(),
+    type: z.enum(["time", "frame", "timecode", "range"]),
+    value: z.number(),
+    end: z.number().optional(),
+    label: z.string(),
+  })
+  .refine((stamp) => stamp.type !== "range" || (stamp.end !== undefined && stamp.end > stamp.value), {
+    message: "A range stamp needs an end after its start",
+  });
+
+export type Stamp = z.infer<typeof stampSchema>;
+
+const STAMP_ICONS: Record<Stamp["type"], string> = {
+  time: '<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>',
+  frame: '<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="22" x2="2" y1="12" y2="12"/><path d="M5.45 5.11 2 12v6a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2v-6l-3.45-6.89A2 2 0 0 0 16.76 4H7.24a2 2 0 0 0-1.79 1.11z"/><line x1="6" x2="6.01" y1="16" y2="16"/><line x1="10" x2="10.01" y1="16" y2="16"/></svg>',
+  timecode: '<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="10" x2="14" y1="2" y2="2"/><line x1="12" x2="15" y1="14" y2="11"/><circle cx="12" cy="14" r="8"/></svg>',
+  range: '<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="18 8 22 12 18 16"/><polyline points="6 8 2 12 6 16"/><line x1="2" x2="22" y1="12" y2="12"/></svg>',
+};
+
+export const STAMP_SELECTOR = "button[data-stamp-id]";
+
+export const formatClockTime = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  return `${h}:${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}`;
+};
+
+/** Text shown inside a stamp chip. */
+export const formatStampText = (stamp: Stamp, timecode: TimecodeSettings) => {
+  switch (stamp.type) {
+    case "time":
+      return formatClockTime(stamp.value);
+    case "frame":
+      return `F${stamp.value}`;
+    case "timecode":
+      return frameToTimecode(stamp.value, timecode);
+    case "range":
+      return `${formatClockTime(frameToTime(stamp.value, timecode.frameRate))}–${formatClockTime(frameToTime(stamp.end, timecode.frameRate))}`;
+  }
+};
+
+/** Start and end timecodes of a stamp; instants start and end on the same frame. */
+export const formatStampTimecodes = (stamp: Stamp, timecode: TimecodeSettings) => {
+  const start = frameToTimecode(stampFrame(stamp, timecode.frameRate), timecode);
+  return stamp.type === "range" ? `${start}–${frameToTimecode(stamp.end, timecode)}` : start;
+};
+
+/** Bracketed plain-text form of a stamp, used when notes are flattened to text. */
+export const formatStampPlain = (stamp: Stamp, timecode: TimecodeSettings) => {
+  return stamp.type === "frame" ? `[Frame ${stamp.value}]` : `[${formatStampText(stamp, timecode)}]`;
+};
+
+/** Media time a stamp points at, in seconds. */
+export const stampTime = (stamp: Stamp, frameRate: number) => {
+  return stamp.type === "time" ? stamp.value : frameToTime(stamp.value, frameRate);
+};
+
+/** Frame a stamp points at; time stamps resolve to the frame showing at that time. */
+export const stampFrame = (stamp: Stamp, frameRate: number) => {
+  return stamp.type === "time" ? timeToFrame(stamp.value, frameRate) : stamp.value;
+};
+
+/** Frames a stamp covers: the span of a range, one frame for everything else. */
+export const stampDurationFrames = (stamp: Stamp) => {
+  return stamp.type === "range" ? stamp.end - stamp.value : 1;
+};
+
+/** Media time a range stamp ends at, in seconds, or null for stamps that mark an instant. */
+export const stampEndTime = (stamp: Stamp, frameRate: number) => {
+  return stamp.type === "range" ? frameToTime(stamp.end, frameRate) : null;
+};
+
+/** Seeks the player to a stamp; frame-based stamps land exactly on their frame. */
+export const seekToStamp = (player: PlayerController, stamp: Stamp) => {
+  if (stamp.type === "time") {
+    player.seek(stamp.value);
+  } else {
+    player.seekToFrame(stamp.value);
+  }
+};
+
+export const createStampElement = (stamp: Stamp, displayText: string) => {
+  const stampButton = document.createElement("button");
+  stampButton.contentEditable = "false";
+  stampButton.className = "inline-flex items-center gap-1 mx-0.5 text-xs font-semibold stamp-text hover:opacity-70 transition-opacity cursor-pointer";
+  stampButton.dataset.stampId = stamp.id;
+  stampButton.dataset.stampType = stamp.type;
+  stampButton.dataset.stampValue = stamp.value.toString();
+  stampButton.dataset.stampLabel = stamp.label;
+  if (stamp.end !== undefined) {
+    stampButton.dataset.stampEnd = stamp.end.toString();
+    stampButton.title = "Click to jump to the start, Alt+click to loop the range";
+  }
+
+  const icon = document.createElement("span");
+  icon.innerHTML = STAMP_ICONS[stamp.type];
+
+  const text = document.createElement("span");
+  text.textContent = displayText;
+  text.contentEditable = "false";
+
+  stampButton.appendChild(icon);
+  stampButton.appendChild(text);
+  return stampButton;
+};
+
+/** Reads the stamp stored on a chip's data attributes, or null if they don't form a valid stamp. */
+export const readStampElement = (element: HTMLElement): Stamp | null => {
+  const result = stampSchema.safeParse({
+    id: element.dataset.stampId,
+    type: element.dataset.stampType,
+    value: parseFloat(element.dataset.stampValue ?? ""),
+    end: element.dataset.stampEnd === undefined ? undefined : parseFloat(element.dataset.stampEnd),
+    label: element.dataset.stampLabel ?? "",
+  });
+  return result.success && Number.isFinite(result.data.value) ? result.data : null;
+};
@@ -0,0 +1,111 @@
+import { stampSections, type NoteDocument } from "@/lib/note-document";
+import { stampEndTime, stampTime } from "@/lib/stamps";
+import type { TimecodeSettings } from "@/lib/timecode";
+
+/*
+ * Subtitle export: every stamp opens a cue holding the note text written after it. A cue ends
+ * at the next stamp in time, or after the configured duration if that comes first; range stamps
+ * run for exactly their span.
+ */
+
+export const DEFAULT_CUE_DURATION = 4;
+
+export interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Turns a notes document into time-ordered cues; text before the first stamp isn't shown. */
+export const documentToCues = (doc: NoteDocument, timecode: TimecodeSettings, maxDuration: number): Cue[] => {
+  const sorted = stampSections(doc)
+    .map(({ stamp, lines }) => ({
+      start: stampTime(stamp, timecode.frameRate),
+      end: stampEndTime(stamp, timecode.frameRate),
+      lines,
+    }))
+    .sort((a, b) => a.start - b.start);
+  return sorted.flatMap((cue, index) => {
+    if (!cue.lines.length) return [];
+    // Stamps at the same time don't cut each other short
+    const next = sorted.slice(index + 1).find((later) => later.start > cue.start);
+    const end = cue.end ?? Math.min(cue.start + maxDuration, next?.start ?? Infinity);
+    return [{ start: cue.start, end, text: cue.lines.join("\n") }];
+  });
+};
+
+// hh:mm:ss followed by milliseconds; SRT separates them with a comma, WebVTT with a dot
+const formatCueTime = (seconds: number, separator: "," | ".") => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3_600_000);
+  const m = Math.floor((totalMs % 3_600_000) / 60_000);
+  const s = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+};
+
+// A blank line ends a cue in both formats, so note paragraphs are kept on consecutive lines
+const cueLines = (text: string) => text.split("\n").filter((line) => line.trim()).join("\n");
+
+export const formatSrt = (cues: Cue[]) => {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}\n${cueLines(cue.text)}\n`)
+    .join("\n");
+};
+
+// WebVTT cue text is markup: escape it, and "-->" may not appear in it at all
+const escapeVttText = (text: string) => {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+};
+
+export const formatVtt = (cues: Cue[]) => {
+  const body = cues
+    .map((cue) => `${formatCueTime(cue.start, ".")} --> ${formatCueTime(cue.end, ".")}\n${escapeVttText(cueLines(cue.text))}\n`)
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+};
+
+const CUE_TIME = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+
+const parseCueTime = (value: string) => {
+  const match = value.match(CUE_TIME);
+  if (!match) return null;
+  const [, h = "0", m, s, ms] = match;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s) + Number(ms.padEnd(3, "0")) / 1000;
+};
+
+const decodeCueText = (text: string) => {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+};
+
+/**
+ * Reads the cues of an SRT or WebVTT file. Cue numbers, settings, styling tags and blocks without
+ * a timing line (the WebVTT header, NOTE and STYLE blocks) are ignored.
+ */
+export const parseSubtitles = (content: string): Cue[] => {
+  const blocks = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n[ \t]*\n/);
+
+  return blocks.flatMap((block) => {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) return [];
+
+    const [startText, endText] = lines[timingIndex].split("-->");
+    const start = parseCueTime(startText);
+    const end = parseCueTime(endText);
+    if (start === null || end === null) return [];
+
+    const text = lines
+      .slice(timingIndex + 1)
+      .map((line) => decodeCueText(line).trim())
+      .filter(Boolean)
+      .join("\n");
+    return [{ start, end, text }];
+  });
+};
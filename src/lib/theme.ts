@@ -0,0 +1,18 @@
+const THEME_KEY = "alairy-theme";
+
+export const DEFAULT_THEME = "default";
+
+export const loadTheme = () => localStorage.getItem(THEME_KEY) || DEFAULT_THEME;
+
+export const applyTheme = (theme: string) => {
+  if (theme === DEFAULT_THEME) {
+    document.documentElement.removeAttribute("data-theme");
+  } else {
+    document.documentElement.setAttribute("data-theme", theme);
+  }
+};
+
+export const saveTheme = (theme: string) => {
+  localStorage.setItem(THEME_KEY, theme);
+  applyTheme(theme);
+};
@@ -0,0 +1,70 @@
+import { isSameFrameRate } from "@/lib/frame-rate";
+
+export interface TimecodeSettings {
+  frameRate: number;
+  dropFrame: boolean;
+  // Frame count of the video's first frame, from the start-timecode offset
+  startFrame: number;
+}
+
+export const ZERO_TIMECODE = "00:00:00:00";
+
+// Drop-frame only exists for the NTSC rates 29.97 and 59.94
+export const isDropFrameRate = (frameRate: number) => {
+  return isSameFrameRate(frameRate, 30000 / 1001) || isSameFrameRate(frameRate, 60000 / 1001);
+};
+
+const dropFrameCount = (frameRate: number) => Math.round(frameRate) / 15;
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+export const formatTimecode = (totalFrames: number, frameRate: number, dropFrame: boolean) => {
+  const nominal = Math.round(frameRate);
+  let frames = Math.max(0, Math.round(totalFrames));
+
+  if (dropFrame) {
+    // Frame numbers 0 and 1 (0-3 at 59.94) are skipped every minute except each tenth minute
+    const dropped = dropFrameCount(frameRate);
+    const framesPerTenMinutes = nominal * 600 - dropped * 9;
+    const framesPerMinute = nominal * 60 - dropped;
+    const tenMinuteBlocks = Math.floor(frames / framesPerTenMinutes);
+    const remainder = frames % framesPerTenMinutes;
+    frames += dropped * 9 * tenMinuteBlocks;
+    if (remainder > dropped) {
+      frames += dropped * Math.floor((remainder - dropped) / framesPerMinute);
+    }
+  }
+
+  const ff = frames % nominal;
+  const totalSeconds = Math.floor(frames / nominal);
+  const ss = totalSeconds % 60;
+  const mm = Math.floor(totalSeconds / 60) % 60;
+  const hh = Math.floor(totalSeconds / 3600) % 24;
+
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}${dropFrame ? ";" : ":"}${pad(ff)}`;
+};
+
+/**
+ * Parses `HH:MM:SS:FF` (or `HH:MM:SS;FF`) into a frame count, or returns null if malformed or, in
+ * drop-frame, a label that's skipped and so never appears (e.g. `00:01:00;00`).
+ */
+export const parseTimecode = (timecode: string, frameRate: number, dropFrame: boolean) => {
+  const match = timecode.trim().match(/^(\d{1,2})[:;.](\d{2})[:;.](\d{2})[:;.](\d{2})$/);
+  if (!match) return null;
+
+  const [hh, mm, ss, ff] = match.slice(1).map(Number);
+  const nominal = Math.round(frameRate);
+  if (mm > 59 || ss > 59 || ff >= nominal) return null;
+  if (dropFrame && ss === 0 && mm % 10 !== 0 && ff < dropFrameCount(frameRate)) return null;
+
+  let frames = ((hh * 60 + mm) * 60 + ss) * nominal + ff;
+  if (dropFrame) {
+    const totalMinutes = hh * 60 + mm;
+    frames -= dropFrameCount(frameRate) * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+  return frames;
+};
+
+export const frameToTimecode = (frame: number, settings: TimecodeSettings) => {
+  return formatTimecode(frame + settings.startFrame, settings.frameRate, settings.dropFrame);
+};
@@ -0,0 +1,37 @@
+import { stampSections, type NoteDocument } from "@/lib/note-document";
+import { stampEndTime, stampFrame, stampTime, type Stamp } from "@/lib/stamps";
+
+export interface TimelineMark {
+  stamp: Stamp;
+  // Seconds; `end` is set for range stamps only
+  start: number;
+  end: number | null;
+  frame: number;
+  // Note text written after the stamp
+  lines: string[];
+}
+
+/** Position of a time along the timeline, as a CSS percentage. */
+export const timelinePercent = (time: number, duration: number) =>
+  `${Math.max(0, Math.min(100, (time / duration) * 100))}%`;
+
+/** The document's stamps in time order, as drawn on the player timeline. */
+export const timelineMarks = (doc: NoteDocument, frameRate: number): TimelineMark[] => {
+  return stampSections(doc)
+    .map(({ stamp, lines }) => ({
+      stamp,
+      start: stampTime(stamp, frameRate),
+      end: stampEndTime(stamp, frameRate),
+      frame: stampFrame(stamp, frameRate),
+      lines,
+    }))
+    .sort((a, b) => a.start - b.start);
+};
+
+/** The nearest mark before (-1) or after (1) the given frame, skipping marks on that frame. */
+export const adjacentMark = (marks: TimelineMark[], frame: number, direction: -1 | 1) => {
+  if (direction < 0) {
+    return [...marks].reverse().find((mark) => mark.frame < frame) ?? null;
+  }
+  return marks.find((mark) => mark.frame > frame) ?? null;
+};
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { DEFAULT_FRAME_RATE } from "@/lib/frame-rate";
+import { ZERO_TIMECODE, isDropFrameRate, parseTimecode, type TimecodeSettings } from "@/lib/timecode";
+
+// Per-video playback settings, stored with the video's notebook
+export const videoMetaSchema = z.object({
+  detectedFrameRate: z.number().positive().optional(),
+  frameRateOverride: z.number().positive().optional(),
+  // Timecode of the first frame, as shown in the edit suite
+  startTimecode: z.string().optional(),
+  dropFrame: z.boolean().optional(),
+  // Last playback speed used for this video
+  playbackRate: z.number().positive().optional(),
+});
+
+export type VideoMeta = z.infer<typeof videoMetaSchema>;
+
+export const resolveFrameRate = (meta: VideoMeta) => {
+  return meta.frameRateOverride ?? meta.detectedFrameRate ?? DEFAULT_FRAME_RATE;
+};
+
+/** Timecode settings in effect for a video; drop-frame defaults to on for NTSC rates. */
+export const resolveTimecodeSettings = (meta: VideoMeta): TimecodeSettings => {
+  const frameRate = resolveFrameRate(meta);
+  const dropFrame = isDropFrameRate(frameRate) && (meta.dropFrame ?? true);
+  return {
+    frameRate,
+    dropFrame,
+    startFrame: parseTimecode(meta.startTimecode ?? ZERO_TIMECODE, frameRate, dropFrame) ?? 0,
+  };
+};
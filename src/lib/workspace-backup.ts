@@ -0,0 +1,180 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from "fflate";
+import { z } from "zod";
+import { NOTEBOOK_FILE_EXTENSION, parseNotebookFile, serializeNotebook } from "@/lib/notebook-file";
+import { copyNotebookId, notebookName, putNotebook, type Notebook } from "@/lib/notes-db";
+
+/*
+ * Whole-workspace backups: a zip holding a manifest, every notebook in the notebook file format
+ * and the app's localStorage settings (theme, display and export preferences). Notebooks that can
+ * no longer be read are added as their raw stored records, for recovery by hand; restoring skips
+ * them. Restoring is planned first so the user can review what it would change before anything
+ * is written.
+ */
+
+const BACKUP_FORMAT = "alairy-backup";
+const BACKUP_VERSION = 1;
+const MANIFEST_PATH = "alairy-backup.json";
+const SETTINGS_PATH = "settings.json";
+const NOTEBOOKS_DIR = "notebooks/";
+const UNREADABLE_DIR = "unreadable/";
+
+// Every preference the app keeps in localStorage uses this prefix
+const SETTINGS_PREFIX = "alairy-";
+
+const manifestSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  createdAt: z.string(),
+});
+
+const settingsSchema = z.record(z.string());
+
+export interface WorkspaceBackup {
+  createdAt: string;
+  notebooks: Notebook[];
+  settings: Record<string, string>;
+  // Notebook files in the archive that failed validation
+  skipped: number;
+}
+
+export type RestoreStatus = "new" | "updated" | "conflicting" | "unchanged";
+
+export interface RestoreItem {
+  notebook: Notebook;
+  existing: Notebook | null;
+  status: RestoreStatus;
+}
+
+export interface RestorePlan {
+  items: RestoreItem[];
+  // Settings whose backed-up value differs from the current one
+  changedSettings: string[];
+  settings: Record<string, string>;
+  skipped: number;
+}
+
+// How conflicting notebooks (changed here since the backup was made) are restored
+export type ConflictPolicy = "keep-current" | "use-backup" | "keep-both";
+
+const readSettings = () => {
+  const settings: Record<string, string> = {};
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(SETTINGS_PREFIX))
+    .forEach((key) => {
+      settings[key] = localStorage.getItem(key) ?? "";
+    });
+  return settings;
+};
+
+export const backupFilename = () => `alairy-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+
+export const createWorkspaceBackup = (notebooks: Notebook[], unreadable: unknown[] = []) => {
+  const manifest: z.infer<typeof manifestSchema> = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+  };
+  const files: Zippable = {
+    [MANIFEST_PATH]: strToU8(JSON.stringify(manifest, null, 2)),
+    [SETTINGS_PATH]: strToU8(JSON.stringify(readSettings(), null, 2)),
+  };
+  // Indexed names: notebook ids and filenames aren't safe or unique as paths
+  notebooks.forEach((notebook, index) => {
+    files[`${NOTEBOOKS_DIR}${(index + 1).toString().padStart(4, "0")}${NOTEBOOK_FILE_EXTENSION}`] = strToU8(serializeNotebook(notebook));
+  });
+  unreadable.forEach((record, index) => {
+    files[`${UNREADABLE_DIR}${(index + 1).toString().padStart(4, "0")}.json`] = strToU8(JSON.stringify(record, null, 2));
+  });
+  return zipSync(files);
+};
+
+const parseJson = (bytes: Uint8Array | undefined) => {
+  if (!bytes) return undefined;
+  try {
+    return JSON.parse(strFromU8(bytes));
+  } catch {
+    return undefined;
+  }
+};
+
+/** Reads a backup archive, or returns null if it isn't one. */
+export const readWorkspaceBackup = (archive: Uint8Array): WorkspaceBackup | null => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(archive);
+  } catch {
+    return null;
+  }
+
+  const manifest = manifestSchema.safeParse(parseJson(files[MANIFEST_PATH]));
+  if (!manifest.success) return null;
+  const settings = settingsSchema.safeParse(parseJson(files[SETTINGS_PATH]) ?? {});
+
+  const notebooks: Notebook[] = [];
+  let skipped = 0;
+  Object.entries(files)
+    .filter(([path]) => path.startsWith(NOTEBOOKS_DIR) && path.endsWith(NOTEBOOK_FILE_EXTENSION))
+    .forEach(([, bytes]) => {
+      const notebook = parseNotebookFile(strFromU8(bytes));
+      if (notebook) {
+        notebooks.push(notebook);
+      } else {
+        skipped += 1;
+      }
+    });
+
+  return {
+    createdAt: manifest.data.createdAt,
+    notebooks,
+    settings: settings.success ? settings.data : {},
+    skipped,
+  };
+};
+
+const sameContent = (a: Notebook, b: Notebook) => {
+  return (
+    JSON.stringify(a.document) === JSON.stringify(b.document) &&
+    JSON.stringify(a.meta) === JSON.stringify(b.meta) &&
+    (a.title ?? "") === (b.title ?? "")
+  );
+};
+
+/**
+ * Dry run of a restore against the current notebooks. A notebook is "updated" when the backup's
+ * copy is newer than the stored one, and "conflicting" when the stored one was edited after it.
+ */
+export const planRestore = (backup: WorkspaceBackup, current: Notebook[]): RestorePlan => {
+  const currentById = new Map(current.map((notebook) => [notebook.id, notebook]));
+
+  const items = backup.notebooks.map((notebook): RestoreItem => {
+    const existing = currentById.get(notebook.id) ?? null;
+    if (!existing) return { notebook, existing, status: "new" };
+    if (sameContent(existing, notebook)) return { notebook, existing, status: "unchanged" };
+    return { notebook, existing, status: notebook.updatedAt > existing.updatedAt ? "updated" : "conflicting" };
+  });
+
+  const currentSettings = readSettings();
+  const changedSettings = Object.keys(backup.settings).filter((key) => currentSettings[key] !== backup.settings[key]);
+
+  return { items, changedSettings, settings: backup.settings, skipped: backup.skipped };
+};
+
+/** Writes a planned restore; returns how many notebooks were written. */
+export const applyRestore = async (plan: RestorePlan, policy: ConflictPolicy) => {
+  let written = 0;
+  for (const { notebook, status } of plan.items) {
+    if (status === "unchanged" || (status === "conflicting" && policy === "keep-current")) continue;
+
+    const restored = status === "conflicting" && policy === "keep-both"
+      ? { ...notebook, id: copyNotebookId(), title: `${notebookName(notebook)} (backup)` }
+      : notebook;
+    await putNotebook(restored);
+    written += 1;
+  }
+
+  Object.entries(plan.settings)
+    .filter(([key]) => key.startsWith(SETTINGS_PREFIX))
+    .forEach(([key, value]) => localStorage.setItem(key, value));
+
+  return written;
+};
@@ -1,9 +1,23 @@
 import { useState, useEffect, useRef } from "react";
 import { VideoPlayer } from "@/components/VideoPlayer";
-import { NotesPanel } from "@/components/NotesPanel";
+import { NotesPanel, type NotesPanelHandle } from "@/components/NotesPanel";
+import { ImportConflictDialog, type ImportConflict } from "@/components/ImportConflictDialog";
+import { NoteSearch } from "@/components/NoteSearch";
+import { ShortcutSettingsDialog } from "@/components/ShortcutSettingsDialog";
+import { SidecarMenu } from "@/components/SidecarMenu";
 import { Button } from "@/components/ui/button";
-import { Upload, Info, Palette, X } from "lucide-react";
+import { Upload, Info, Palette, X, BookOpen, Search, Keyboard } from "lucide-react";
 import { toast } from "sonner";
+import { Link, useSearchParams } from "react-router-dom";
+import { useNotebookId } from "@/hooks/use-notebook-id";
+import { useShortcutSettings } from "@/hooks/use-shortcut-settings";
+import { useVideoMeta } from "@/hooks/use-video-meta";
+import type { NoteDocument } from "@/lib/note-document";
+import { resolveImportConflict, type ImportResolution } from "@/lib/notebook-file";
+import { emptyNotebook, getNotebook, isQuotaExceeded, putNotebook } from "@/lib/notes-db";
+import { shortcutHelp } from "@/lib/shortcuts";
+import { isVideoFile, pickDroppedFiles, readSidecarFile } from "@/lib/sidecar-drop";
+import { applyTheme, loadTheme, saveTheme } from "@/lib/theme";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -23,45 +37,106 @@ const Index = () => {
   const [theme, setTheme] = useState<string>("default");
   const [isDragging, setIsDragging] = useState(false);
   const [isFullscreenNotes, setIsFullscreenNotes] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isShortcutSettingsOpen, setIsShortcutSettingsOpen] = useState(false);
+  const shortcutSettings = useShortcutSettings();
+  // Remounts the notes panels when the notebook is replaced from a sidecar file
+  const [notesRevision, setNotesRevision] = useState(0);
+  // Notes file dropped with a video, applied once that video's notebook is resolved
+  const [pendingSidecar, setPendingSidecar] = useState<{ video: File; file: File } | null>(null);
+  const [sidecarConflict, setSidecarConflict] = useState<ImportConflict | null>(null);
+  // Saved notes of the open notebook, for the timeline markers
+  const [notesDocument, setNotesDocument] = useState<{ notebookId: string; doc: NoteDocument } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // The fullscreen panel takes stamps from the player while it's showing, the docked one otherwise
+  const notesPanelRef = useRef<NotesPanelHandle>(null);
+  const fullscreenNotesPanelRef = useRef<NotesPanelHandle>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [openedNotebook, setOpenedNotebook] = useState<{ id: string; filename: string } | null>(null);
+  const videoNotebookId = useNotebookId(videoFile);
+
+  // A notebook opened from the library (`/?notebook=<id>`) is shown until a video is loaded
+  const openedNotebookId = videoFile ? null : searchParams.get("notebook");
+  const notebookId = videoFile ? videoNotebookId : openedNotebook?.id ?? null;
+  const notesFilename = videoFile ? currentVideoFilename : openedNotebook?.filename ?? null;
+  const { meta: videoMeta, frameRate, timecode, updateMeta: updateVideoMeta, reload: reloadVideoMeta } = useVideoMeta(notebookId, notesFilename);
+
+  useEffect(() => {
+    setOpenedNotebook(null);
+    if (!openedNotebookId) return;
+
+    let cancelled = false;
+    getNotebook(openedNotebookId)
+      .then((notebook) => {
+        if (cancelled) return;
+        if (notebook) {
+          setOpenedNotebook({ id: notebook.id, filename: notebook.filename });
+        } else {
+          toast.error("That notebook no longer exists");
+          setSearchParams({}, { replace: true });
+        }
+      })
+      .catch(() => toast.error("Could not open notes storage"));
+    return () => {
+      cancelled = true;
+    };
+  }, [openedNotebookId, setSearchParams]);
 
   useEffect(() => {
-    const savedTheme = localStorage.getItem("alairy-theme") || "default";
+    if (!pendingSidecar || pendingSidecar.video !== videoFile || !videoNotebookId) return;
+    const { video, file } = pendingSidecar;
+    setPendingSidecar(null);
+
+    const applySidecar = async () => {
+      const stored = await getNotebook(videoNotebookId);
+      const incoming = await readSidecarFile(file, stored ?? emptyNotebook(videoNotebookId, video.name));
+      if (!incoming) {
+        toast.error(`Could not read notes from ${file.name}`);
+        return;
+      }
+      if (stored?.document.blocks.length) {
+        if (JSON.stringify(stored.document) !== JSON.stringify(incoming.document)) {
+          setSidecarConflict({ existing: stored, imported: incoming, source: file.name });
+        }
+        return;
+      }
+      await putNotebook(incoming);
+      setNotesRevision((current) => current + 1);
+      reloadVideoMeta();
+      toast.success(`Loaded notes from ${file.name}`, { duration: 2000 });
+    };
+    applySidecar().catch((error) =>
+      toast.error(isQuotaExceeded(error) ? "Browser storage is full, so the notes were not loaded." : "Could not load notes")
+    );
+  }, [pendingSidecar, videoFile, videoNotebookId, reloadVideoMeta]);
+
+  useEffect(() => {
+    const savedTheme = loadTheme();
     setTheme(savedTheme);
-    if (savedTheme !== "default") {
-      document.documentElement.setAttribute("data-theme", savedTheme);
-    }
+    applyTheme(savedTheme);
   }, []);
 
   const handleThemeChange = (newTheme: string) => {
     setTheme(newTheme);
-    localStorage.setItem("alairy-theme", newTheme);
-    if (newTheme === "default") {
-      document.documentElement.removeAttribute("data-theme");
-    } else {
-      document.documentElement.setAttribute("data-theme", newTheme);
-    }
+    saveTheme(newTheme);
     toast.success(`Theme: ${newTheme}`, { duration: 300 });
   };
 
-  const getCurrentTime = () => {
-    return (window as any).getCurrentVideoTime?.() || 0;
-  };
-
-  const getCurrentFrame = () => {
-    return (window as any).getCurrentVideoFrame?.() || 0;
-  };
-
-  const seekToTime = (time: number) => {
-    (window as any).seekToVideoTime?.(time);
+  const loadVideo = (file: File, sidecar: File | null = null) => {
+    setVideoFile(file);
+    setPendingSidecar(sidecar && { video: file, file: sidecar });
+    // The video's own notebook takes over from one opened in the library
+    if (searchParams.has("notebook")) {
+      setSearchParams({}, { replace: true });
+    }
+    toast.success(sidecar ? `Loaded: ${file.name} with ${sidecar.name}` : `Loaded: ${file.name}`, { duration: 300 });
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      if (file.type.startsWith("video/")) {
-        setVideoFile(file);
-        toast.success(`Loaded: ${file.name}`, { duration: 300 });
+      if (isVideoFile(file)) {
+        loadVideo(file);
       } else {
         toast.error("Please select a valid video file", { duration: 300 });
       }
@@ -72,6 +147,43 @@ const Index = () => {
     }
   };
 
+  const reloadNotebook = () => {
+    setNotesRevision((current) => current + 1);
+    reloadVideoMeta();
+  };
+
+  const resolveSidecarConflict = async (resolution: ImportResolution) => {
+    if (!sidecarConflict) return;
+    const { existing, imported, source } = sidecarConflict;
+    setSidecarConflict(null);
+
+    try {
+      await putNotebook(resolveImportConflict(existing, imported, resolution));
+    } catch (error) {
+      toast.error(isQuotaExceeded(error) ? "Browser storage is full, so the notes were not loaded." : "Could not load notes");
+      return;
+    }
+    if (resolution === "keep-both") {
+      toast.success(`Notes from ${source} kept as a separate notebook in the library`, { duration: 2000 });
+    } else {
+      reloadNotebook();
+      toast.success(resolution === "merge" ? `Merged notes from ${source}` : `Replaced notes with ${source}`, { duration: 2000 });
+    }
+  };
+
+  const handleDocumentChange = (doc: NoteDocument) => {
+    if (notebookId) setNotesDocument({ notebookId, doc });
+  };
+
+  const insertRangeStamp = (start: number, end: number) => {
+    const panel = isFullscreenNotes ? fullscreenNotesPanelRef.current : notesPanelRef.current;
+    panel?.insertRangeStamp(start, end);
+  };
+
+  const openNotebook = (id: string) => {
+    setSearchParams({ notebook: id });
+  };
+
   const handleUnloadVideo = () => {
     setVideoFile(null);
     setCurrentVideoFilename(null);
@@ -83,10 +195,10 @@ const Index = () => {
     e.stopPropagation();
     setIsDragging(false);
 
-    const file = e.dataTransfer.files[0];
-    if (file && file.type.startsWith("video/")) {
-      setVideoFile(file);
-      toast.success(`Loaded: ${file.name}`, { duration: 300 });
+    // A notes file dropped along with the video is loaded into its notebook
+    const { video, sidecar } = pickDroppedFiles(Array.from(e.dataTransfer.files));
+    if (video) {
+      loadVideo(video, sidecar);
     } else {
       toast.error("Please drop a valid video file", { duration: 300 });
     }
@@ -128,6 +240,7 @@ const Index = () => {
               <Upload className="w-16 h-16 text-primary animate-bounce" />
               <p className="text-2xl font-bold text-foreground">Drop your video here</p>
               <p className="text-muted-foreground">Supported formats: MP4, WebM, MOV, AVI</p>
+              <p className="text-muted-foreground text-sm">Drop its .alairy.json, .srt or .vtt notes along with it to load them too</p>
             </div>
           </div>
         </div>
@@ -146,6 +259,26 @@ const Index = () => {
           </div>
 
           <div className="flex gap-2">
+            <Button variant="outline" size="icon" onClick={() => setIsSearchOpen(true)} title="Search all notes (Ctrl+K)">
+              <Search className="w-4 h-4" />
+            </Button>
+
+            <Button variant="outline" size="icon" onClick={() => setIsShortcutSettingsOpen(true)} title="Keyboard shortcuts">
+              <Keyboard className="w-4 h-4" />
+            </Button>
+
+            <Button variant="outline" size="icon" title="Notes library" asChild>
+              <Link to="/library">
+                <BookOpen className="w-4 h-4" />
+              </Link>
+            </Button>
+
+            <SidecarMenu
+              notebookId={videoFile ? videoNotebookId : null}
+              videoFilename={videoFile ? currentVideoFilename : null}
+              onNotebookReplaced={reloadNotebook}
+            />
+
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" size="icon" title="Change theme">
@@ -206,11 +339,22 @@ const Index = () => {
         <div className="flex items-start gap-2">
           <Info className="w-4 h-4 text-primary mt-0.5 flex-shrink-0" />
           <div className="text-sm text-muted-foreground">
-            <span className="font-semibold text-foreground">Keyboard Shortcuts:</span> Space (Play/Pause) • ← → (Skip 10s) • Shift+← → (Frame-by-frame) • F (Fullscreen) • M (Mute)
+            <span className="font-semibold text-foreground">Keyboard Shortcuts:</span>{" "}
+            {shortcutHelp(shortcutSettings).map(({ keys, label }) => `${keys} (${label})`).join(" • ")} • Ctrl+K (Search notes){" "}
+            <button onClick={() => setIsShortcutSettingsOpen(true)} className="text-primary hover:underline">
+              Customize
+            </button>
           </div>
         </div>
       </div>
 
+      {openedNotebook && (
+        <div className="mb-4 p-3 bg-primary/10 border border-primary/30 rounded-lg text-sm">
+          Viewing saved notes for <span className="font-medium text-foreground">{openedNotebook.filename}</span>.
+          Load that video to play its stamps.
+        </div>
+      )}
+
       {/* Main content */}
       <div className="h-[calc(100vh-220px)]">
         <ResizablePanelGroup direction="horizontal" className="h-full rounded-lg">
@@ -220,17 +364,21 @@ const Index = () => {
               <VideoPlayer
                 videoFile={videoFile}
                 onVideoLoad={setCurrentVideoFilename}
-                onTimeRequest={getCurrentTime}
-                onFrameRequest={getCurrentFrame}
-                onSeekRequest={seekToTime}
+                frameRate={frameRate}
+                timecode={timecode}
+                videoMeta={videoMeta}
+                onVideoMetaChange={updateVideoMeta}
                 isFullscreenNotes={isFullscreenNotes}
                 onFullscreenNotesChange={setIsFullscreenNotes}
+                onRangeMarked={insertRangeStamp}
+                notesDocument={notesDocument?.notebookId === notebookId ? notesDocument.doc : null}
                 notesPanel={
                   <NotesPanel
-                    videoFilename={currentVideoFilename}
-                    getCurrentTime={getCurrentTime}
-                    getCurrentFrame={getCurrentFrame}
-                    seekToTime={seekToTime}
+                    key={notesRevision}
+                    ref={fullscreenNotesPanelRef}
+                    notebookId={notebookId}
+                    videoFilename={notesFilename}
+                    onDocumentChange={handleDocumentChange}
                   />
                 }
               />
@@ -243,16 +391,32 @@ const Index = () => {
           <ResizablePanel defaultSize={34} minSize={20}>
             <div className={`h-full pl-2 ${isFullscreenNotes ? 'invisible' : ''}`}>
               <NotesPanel
-                videoFilename={currentVideoFilename}
-                getCurrentTime={getCurrentTime}
-                getCurrentFrame={getCurrentFrame}
-                seekToTime={seekToTime}
+                key={notesRevision}
+                ref={notesPanelRef}
+                notebookId={notebookId}
+                videoFilename={notesFilename}
+                onDocumentChange={handleDocumentChange}
               />
             </div>
           </ResizablePanel>
         </ResizablePanelGroup>
       </div>
 
+      <ImportConflictDialog
+        conflict={sidecarConflict}
+        onCancel={() => setSidecarConflict(null)}
+        onResolve={resolveSidecarConflict}
+      />
+
+      <ShortcutSettingsDialog open={isShortcutSettingsOpen} onOpenChange={setIsShortcutSettingsOpen} />
+
+      <NoteSearch
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        activeNotebookId={videoFile ? videoNotebookId : null}
+        onOpenNotebook={videoFile ? undefined : openNotebook}
+      />
+
       <footer className="py-4 flex items-center justify-center gap-2 text-xs text-muted-foreground opacity-70">
         <span>Powered by</span>
         <img
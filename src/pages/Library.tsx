@@ -0,0 +1,483 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import {
+  Archive,
+  ArchiveRestore,
+  BookOpen,
+  Copy,
+  Download,
+  FileJson,
+  FolderOpen,
+  MoreHorizontal,
+  Pencil,
+  Search,
+  Trash2,
+  Upload,
+  Video,
+} from "lucide-react";
+import { ImportConflictDialog, type ImportConflict } from "@/components/ImportConflictDialog";
+import { NoteSearch } from "@/components/NoteSearch";
+import { RestoreDialog } from "@/components/RestoreDialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { reloadShortcutSettings } from "@/hooks/use-shortcut-settings";
+import { downloadFile, stripExtension } from "@/lib/download";
+import { documentStats, documentToMarkdown, documentToText } from "@/lib/note-document";
+import {
+  NOTEBOOK_FILE_EXTENSION,
+  parseNotebookFile,
+  resolveImportConflict,
+  serializeNotebook,
+  type ImportResolution,
+} from "@/lib/notebook-file";
+import {
+  deleteNotebook,
+  duplicateNotebook,
+  getNotebook,
+  isQuotaExceeded,
+  listNotebooks,
+  listUnreadableNotebooks,
+  notebookName,
+  putNotebook,
+  updateNotebook,
+  type Notebook,
+} from "@/lib/notes-db";
+import { applyTheme, loadTheme } from "@/lib/theme";
+import { resolveTimecodeSettings } from "@/lib/video-meta";
+import {
+  applyRestore,
+  backupFilename,
+  createWorkspaceBackup,
+  planRestore,
+  readWorkspaceBackup,
+  type ConflictPolicy,
+  type RestorePlan,
+} from "@/lib/workspace-backup";
+import Logo from "@/assets/logo.png";
+
+const PREVIEW_LENGTH = 140;
+const RECENT_COUNT = 5;
+
+interface LibraryEntry {
+  notebook: Notebook;
+  name: string;
+  stamps: number;
+  words: number;
+  preview: string;
+}
+
+const toEntry = (notebook: Notebook): LibraryEntry => {
+  const text = documentToText(notebook.document, resolveTimecodeSettings(notebook.meta));
+  return {
+    notebook,
+    name: notebookName(notebook),
+    ...documentStats(notebook.document),
+    preview: text.replace(/\s+/g, " ").trim().slice(0, PREVIEW_LENGTH),
+  };
+};
+
+const dateFormat = new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const Library = () => {
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [pendingImport, setPendingImport] = useState<ImportConflict | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [restorePlan, setRestorePlan] = useState<RestorePlan | null>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(() => {
+    listNotebooks()
+      .then((notebooks) => {
+        // Notebooks only hold notes once something was written; ones with just video settings aren't listed
+        setEntries(notebooks.filter((notebook) => notebook.document.blocks.length > 0).map(toEntry));
+      })
+      .catch(() => {
+        setEntries([]);
+        toast.error("Could not open notes storage");
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    applyTheme(loadTheme());
+  }, []);
+
+  const recent = useMemo(() => entries?.slice(0, RECENT_COUNT) ?? [], [entries]);
+
+  const openNotebookId = (id: string) => {
+    navigate(`/?notebook=${encodeURIComponent(id)}`);
+  };
+
+  const openNotebook = (notebook: Notebook) => openNotebookId(notebook.id);
+
+  const renameNotebook = async ({ notebook, name }: LibraryEntry) => {
+    const title = window.prompt("Notebook name", name)?.trim();
+    if (title === undefined || title === name) return;
+
+    try {
+      // An empty name falls back to the video filename
+      await updateNotebook(notebook.id, notebook.filename, (current) => ({ ...current, title: title || undefined }));
+      toast.success("Notebook renamed", { duration: 300 });
+      refresh();
+    } catch {
+      toast.error("Could not rename notebook");
+    }
+  };
+
+  const copyNotebook = async ({ notebook, name }: LibraryEntry) => {
+    try {
+      await duplicateNotebook(notebook.id, `${name} (copy)`);
+      toast.success("Notebook duplicated", { duration: 300 });
+      refresh();
+    } catch {
+      toast.error("Could not duplicate notebook");
+    }
+  };
+
+  const exportNotebook = ({ notebook, name }: LibraryEntry) => {
+    const markdown = documentToMarkdown(notebook.document, name, resolveTimecodeSettings(notebook.meta));
+    downloadFile(markdown, `${stripExtension(name)}_notes.md`, "text/markdown");
+    toast.success("Notes exported", { duration: 300 });
+  };
+
+  const exportNotebookFile = ({ notebook }: LibraryEntry) => {
+    downloadFile(serializeNotebook(notebook), `${notebook.filename}${NOTEBOOK_FILE_EXTENSION}`, "application/json");
+    toast.success("Notebook exported", { duration: 300 });
+  };
+
+  const storeImport = async (notebook: Notebook, successMessage: string) => {
+    try {
+      await putNotebook(notebook);
+      toast.success(successMessage, { duration: 2000 });
+      refresh();
+    } catch (error) {
+      toast.error(isQuotaExceeded(error) ? "Browser storage is full, so the notebook was not imported." : "Could not import notebook");
+    }
+  };
+
+  const importNotebookFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const imported = parseNotebookFile(await file.text());
+    if (!imported) {
+      toast.error(`${file.name} is not a valid Alairy notebook file`);
+      return;
+    }
+
+    try {
+      const existing = await getNotebook(imported.id);
+      if (existing) {
+        setPendingImport({ imported, existing, source: file.name });
+      } else {
+        await storeImport(imported, `Imported notes for ${imported.filename}`);
+      }
+    } catch {
+      toast.error("Could not open notes storage");
+    }
+  };
+
+  const backUpWorkspace = async () => {
+    try {
+      const [notebooks, unreadable] = await Promise.all([listNotebooks(), listUnreadableNotebooks()]);
+      downloadFile(createWorkspaceBackup(notebooks, unreadable), backupFilename(), "application/zip");
+      if (unreadable.length) {
+        toast.warning(
+          `Backup downloaded, but ${unreadable.length} unreadable ${unreadable.length === 1 ? "notebook was" : "notebooks were"} only saved as raw data in the backup's unreadable folder. Restoring the backup won't bring ${unreadable.length === 1 ? "it" : "them"} back.`,
+          { duration: 8000 }
+        );
+      } else {
+        toast.success("Backup downloaded", { duration: 300 });
+      }
+    } catch {
+      toast.error("Could not create backup");
+    }
+  };
+
+  const chooseBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const backup = readWorkspaceBackup(new Uint8Array(await file.arrayBuffer()));
+    if (!backup) {
+      toast.error(`${file.name} is not an Alairy backup`);
+      return;
+    }
+    try {
+      setRestorePlan(planRestore(backup, await listNotebooks()));
+    } catch {
+      toast.error("Could not open notes storage");
+    }
+  };
+
+  const restoreBackup = async (policy: ConflictPolicy) => {
+    if (!restorePlan) return;
+    const plan = restorePlan;
+    setRestorePlan(null);
+
+    try {
+      const written = await applyRestore(plan, policy);
+      applyTheme(loadTheme());
+      reloadShortcutSettings();
+      toast.success(`Restored ${written} ${written === 1 ? "notebook" : "notebooks"} and settings`, { duration: 2000 });
+    } catch (error) {
+      toast.error(isQuotaExceeded(error) ? "Browser storage is full, so the restore is incomplete." : "Could not finish the restore");
+    }
+    refresh();
+  };
+
+  const resolvePendingImport = async (resolution: ImportResolution) => {
+    if (!pendingImport) return;
+    const { imported, existing } = pendingImport;
+    setPendingImport(null);
+    const messages: Record<ImportResolution, string> = {
+      replace: "Notebook replaced with the imported notes",
+      merge: "Imported notes merged into the notebook",
+      "keep-both": "Imported notes kept as a separate notebook",
+    };
+    await storeImport(resolveImportConflict(existing, imported, resolution), messages[resolution]);
+  };
+
+  const removeNotebook = async ({ notebook, name }: LibraryEntry) => {
+    if (!window.confirm(`Delete the notes for "${name}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteNotebook(notebook.id);
+      toast.success("Notebook deleted", { duration: 300 });
+      refresh();
+    } catch {
+      toast.error("Could not delete notebook");
+    }
+  };
+
+  return (
+    <SidebarProvider>
+      <Sidebar>
+        <SidebarHeader>
+          <Link to="/" className="flex items-center gap-2 px-2 py-1">
+            <img src={Logo} alt="Alairy Logo" className="h-8 w-8 object-contain" />
+            <span className="text-lg font-bold bg-gradient-primary bg-clip-text text-transparent">Alairy</span>
+          </Link>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild>
+                    <Link to="/">
+                      <Video />
+                      <span>Player</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                  <SidebarMenuButton isActive>
+                    <BookOpen />
+                    <span>Library</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                  <SidebarMenuButton onClick={() => setIsSearchOpen(true)}>
+                    <Search />
+                    <span>Search notes</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+          {recent.length > 0 && (
+            <SidebarGroup>
+              <SidebarGroupLabel>Recently edited</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {recent.map((entry) => (
+                    <SidebarMenuItem key={entry.notebook.id}>
+                      <SidebarMenuButton onClick={() => openNotebook(entry.notebook)} title={entry.name}>
+                        <FolderOpen />
+                        <span>{entry.name}</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          )}
+        </SidebarContent>
+      </Sidebar>
+
+      <SidebarInset className="bg-gradient-subtle">
+        <header className="flex items-center gap-3 border-b border-border p-4">
+          <SidebarTrigger />
+          <h1 className="text-xl font-semibold">Library</h1>
+          {entries && (
+            <span className="text-sm text-muted-foreground">
+              {entries.length} {entries.length === 1 ? "notebook" : "notebooks"}
+            </span>
+          )}
+          <Button variant="outline" size="sm" className="ml-auto" onClick={() => importInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={`${NOTEBOOK_FILE_EXTENSION},application/json`}
+            onChange={importNotebookFile}
+            className="hidden"
+          />
+          <Button variant="outline" size="sm" onClick={backUpWorkspace} title="Download every notebook and setting as a zip">
+            <Archive className="w-4 h-4 mr-2" />
+            Back up
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => restoreInputRef.current?.click()} title="Restore a backup zip">
+            <ArchiveRestore className="w-4 h-4 mr-2" />
+            Restore
+          </Button>
+          <input
+            ref={restoreInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            onChange={chooseBackup}
+            className="hidden"
+          />
+          <Button variant="outline" size="sm" onClick={() => setIsSearchOpen(true)}>
+            <Search className="w-4 h-4 mr-2" />
+            Search
+            <kbd className="ml-2 text-xs text-muted-foreground">Ctrl+K</kbd>
+          </Button>
+        </header>
+
+        <div className="p-4 md:p-6">
+          {entries === null ? (
+            <p className="text-muted-foreground">Loading notebooks...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-muted-foreground">
+              No notes yet. <Link to="/" className="text-primary underline">Load a video</Link> to start taking notes.
+            </p>
+          ) : (
+            <div className="rounded-lg border border-border bg-card">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Video</TableHead>
+                    <TableHead className="whitespace-nowrap">Last edited</TableHead>
+                    <TableHead className="text-right">Stamps</TableHead>
+                    <TableHead className="text-right">Words</TableHead>
+                    <TableHead>Preview</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.notebook.id} className="cursor-pointer" onClick={() => openNotebook(entry.notebook)}>
+                      <TableCell className="font-medium">
+                        {entry.name}
+                        {entry.name !== entry.notebook.filename && (
+                          <div className="text-xs text-muted-foreground">{entry.notebook.filename}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {dateFormat.format(entry.notebook.updatedAt)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{entry.stamps}</TableCell>
+                      <TableCell className="text-right tabular-nums">{entry.words}</TableCell>
+                      <TableCell className="max-w-md truncate text-muted-foreground" title={entry.preview}>
+                        {entry.preview}
+                      </TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" title="Notebook actions">
+                              <MoreHorizontal className="w-4 h-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => openNotebook(entry.notebook)}>
+                              <FolderOpen className="w-4 h-4 mr-2" />
+                              Open
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => renameNotebook(entry)}>
+                              <Pencil className="w-4 h-4 mr-2" />
+                              Rename
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => copyNotebook(entry)}>
+                              <Copy className="w-4 h-4 mr-2" />
+                              Duplicate
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => exportNotebook(entry)}>
+                              <Download className="w-4 h-4 mr-2" />
+                              Export Markdown
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => exportNotebookFile(entry)}>
+                              <FileJson className="w-4 h-4 mr-2" />
+                              Export notebook file
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onClick={() => removeNotebook(entry)}
+                              className="text-destructive focus:text-destructive"
+                            >
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </SidebarInset>
+
+      <ImportConflictDialog
+        conflict={pendingImport}
+        onCancel={() => setPendingImport(null)}
+        onResolve={resolvePendingImport}
+      />
+
+      <RestoreDialog plan={restorePlan} onCancel={() => setRestorePlan(null)} onRestore={restoreBackup} />
+
+      <NoteSearch
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        activeNotebookId={null}
+        onOpenNotebook={openNotebookId}
+      />
+    </SidebarProvider>
+  );
+};
+
+export default Library;